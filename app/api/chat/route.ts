@@ -1,71 +1,266 @@
 import { NextResponse } from 'next/server';
+import { createUIMessageStream, createUIMessageStreamResponse } from 'ai';
+import {
+  sendChatMessage,
+  startChatConversation,
+  type ChatStartRequest,
+  type ChatStartResponse,
+} from '@/lib/services/apiService';
+import { toServiceError } from '@/lib/services/serviceErrors';
+import { connectUpstream, openUpstreamStream } from '@/lib/server/upstreamStream';
+import type { ChatRequest, ChatResponse, VedikaUIMessage } from '@/lib/types/api';
 
-// Environment-specific API endpoints
-// Production: https://api.vedika.ai.in
-// Preprod: https://preprod.api.vedika.ai.in
-// UAT: https://uat.api.vedika.ai.in
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.vedika.ai.in';
+// Streams a reply in the Vercel AI SDK UI message stream format so pages can use useChat().
+// Step 1 (REST /ai/chat/start) runs here; step 2 relays the WebSocket stream as text deltas,
+// with usage and credits sent as data parts. When the stream can't be reached the non-streaming
+// /ai/chat reply is sent instead, as a single text part.
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Body sent by useChat() through a DefaultChatTransport (see VERCEL_AI_SDK_MIGRATION.md)
+interface ChatRouteRequest {
+  messages: VedikaUIMessage[];
+  device_id: string;
+  session_id: string;
+  model_id?: string;
+  interaction_mode?: ChatStartRequest['interaction_mode'];
+  request_type?: 'anonymous' | 'authenticated';
+}
+
+function getMessageText(message: VedikaUIMessage): string {
+  return message.parts
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('');
+}
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  const serviceError = toServiceError(error, fallbackMessage);
+  return NextResponse.json(
+    { error: serviceError.message, kind: serviceError.kind },
+    { status: serviceError.status_code || 502 }
+  );
+}
+
+// Fallback: proxy the JSON /ai/chat reply and send it as one text part
+async function replyWithoutStreaming(request: ChatRequest) {
+  let reply: ChatResponse;
+  try {
+    reply = await sendChatMessage(request);
+  } catch (error) {
+    console.error('❌ [API Route] Non-streaming chat failed:', error);
+    return errorResponse(error, 'Failed to send message');
+  }
+
+  const conversationId = reply.conversation_id;
+  console.log('✅ [API Route] Non-streaming reply received:', conversationId);
+
+  const stream = createUIMessageStream<VedikaUIMessage>({
+    execute: ({ writer }) => {
+      const textId = `text-${conversationId}`;
+      writer.write({ type: 'start', messageMetadata: { conversationId, model: reply.model } });
+      writer.write({ type: 'text-start', id: textId });
+      writer.write({ type: 'text-delta', id: textId, delta: reply.response });
+      writer.write({ type: 'text-end', id: textId });
+      writer.write({ type: 'data-usage', data: { model: reply.model, tokens: reply.tokens_used } });
+      if (reply.credits) {
+        writer.write({
+          type: 'data-credits',
+          data: {
+            remaining: reply.credits.remaining,
+            used: reply.credits.used_today,
+            daily_total: reply.credits.daily_total,
+          },
+        });
+      }
+    },
+  });
+
+  return createUIMessageStreamResponse({
+    stream,
+    headers: { 'x-conversation-id': conversationId },
+  });
+}
 
 export async function POST(request: Request) {
+  let body: ChatRouteRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const lastUserMessage = [...(body.messages ?? [])].reverse().find(message => message.role === 'user');
+  const message = lastUserMessage ? getMessageText(lastUserMessage).trim() : '';
+
+  if (!message || !body.device_id || !body.session_id) {
+    return NextResponse.json(
+      { error: 'Expected a user message, device_id and session_id' },
+      { status: 400 }
+    );
+  }
+
+  const requestType = body.request_type || 'anonymous';
+
+  console.log('📤 [API Route] Chat request:', {
+    message,
+    device_id: body.device_id,
+    session_id: body.session_id,
+    model_id: body.model_id,
+  });
+
+  // Connect before /ai/chat/start, which deducts coins: a reply that can't be streamed is fetched
+  // from /ai/chat instead, and the user is only charged once
+  let socket: WebSocket;
   try {
-    const body = await request.json();
-    
-    console.log('📤 [API Route] Chat request:', {
-      message: body.message,
+    socket = await connectUpstream();
+  } catch (error) {
+    console.warn('⚠️ [API Route] Streaming unavailable, falling back to /ai/chat:', error);
+    return replyWithoutStreaming({
+      message,
       device_id: body.device_id,
       session_id: body.session_id,
-      model_id: body.model_id,
+      model_id: (body.model_id || 'best') as ChatRequest['model_id'],
+      request_type: requestType,
     });
-    console.log('🔗 [API Route] Backend URL:', `${API_BASE_URL}/ai/chat`);
-    
-    const response = await fetch(`${API_BASE_URL}/ai/chat`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
+  }
+
+  // Step 1: start the conversation so REST errors (e.g. credits exhausted) keep their HTTP status
+  let start: ChatStartResponse;
+  try {
+    start = await startChatConversation({
+      message,
+      session_id: body.session_id,
+      device_id: body.device_id,
+      model_id: body.model_id || 'best',
+      request_type: requestType,
+      interaction_mode: body.interaction_mode || 'type',
     });
-    
-    console.log('📡 [API Route] Response status:', response.status);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ [API Route] Chat API Error:', errorText);
-      console.error('❌ [API Route] Response status:', response.status);
-      return NextResponse.json(
-        { error: `Chat API error: ${response.statusText}`, details: errorText },
-        { status: response.status }
-      );
-    }
-    
-    const data = await response.json();
-    
-    // Forward the response headers
-    const headers = new Headers();
-    const conversationId = response.headers.get('x-conversation-id');
-    if (conversationId) {
-      headers.set('x-conversation-id', conversationId);
-    }
-    
-    console.log('✅ [API Route] Chat success, conversation ID:', conversationId);
-    
-    return NextResponse.json(data, { headers });
   } catch (error) {
-    console.error('❌ [API Route] Error in chat route:', error);
-    
-    // Check if it's a fetch error (network issue)
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      console.error('🌐 Network error - backend may be unreachable');
-      console.error('💡 Backend URL:', `${API_BASE_URL}/ai/chat`);
-      return NextResponse.json(
-        { error: 'Unable to connect to backend API', details: error.message },
-        { status: 502 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    console.error('❌ [API Route] Failed to start conversation:', error);
+    socket.close();
+    return errorResponse(error, 'Failed to start conversation');
   }
+
+  const conversationId = start.conversation_id;
+  console.log('✅ [API Route] Conversation started:', conversationId);
+
+  // Step 2: relay the upstream stream as UI message chunks
+  const stream = createUIMessageStream<VedikaUIMessage>({
+    execute: async ({ writer }) => {
+      const textId = `text-${conversationId}`;
+      let textOpen = false;
+
+      const closeText = () => {
+        if (!textOpen) return;
+        textOpen = false;
+        writer.write({ type: 'text-end', id: textId });
+      };
+
+      writer.write({
+        type: 'start',
+        messageMetadata: { conversationId, model: start.model },
+      });
+      writer.write({
+        type: 'data-credits',
+        data: { remaining: start.vedika_coins_remaining, used: start.vedika_coins_used },
+        transient: true,
+      });
+
+      let streamError: string | null = null;
+
+      await openUpstreamStream(
+        {
+          routeKey: 'stream_chat',
+          conversation_id: conversationId,
+          device_id: body.device_id,
+          session_id: body.session_id,
+          message,
+          request_type: requestType,
+        },
+        {
+          socket,
+          signal: request.signal,
+          onEvent: (event) => {
+            switch (event.type) {
+              case 'stream_start':
+                writer.write({ type: 'message-metadata', messageMetadata: { conversationId, model: event.model } });
+                writer.write({ type: 'text-start', id: textId });
+                textOpen = true;
+                break;
+
+              case 'content_chunk':
+                if (!textOpen) {
+                  writer.write({ type: 'text-start', id: textId });
+                  textOpen = true;
+                }
+                writer.write({ type: 'text-delta', id: textId, delta: event.content });
+                break;
+
+              case 'stream_complete':
+                closeText();
+                writer.write({
+                  type: 'data-usage',
+                  data: {
+                    model: start.model,
+                    tokens: event.tokens,
+                    input_tokens: event.input_tokens,
+                    output_tokens: event.output_tokens,
+                  },
+                });
+                if (event.credits) {
+                  writer.write({
+                    type: 'data-credits',
+                    data: {
+                      remaining: event.credits.remaining,
+                      used: event.credits.used_today,
+                      daily_total: event.credits.daily_total,
+                    },
+                  });
+                }
+                break;
+
+              case 'stream_cancelled':
+                closeText();
+                break;
+
+              case 'credits_info':
+                writer.write({
+                  type: 'data-credits',
+                  data: { remaining: event.vedika_coins_remaining, daily_total: event.daily_credits },
+                  transient: true,
+                });
+                break;
+
+              case 'credits_exhausted':
+                writer.write({
+                  type: 'data-credits',
+                  data: { remaining: event.vedika_coins_remaining, daily_total: event.daily_credits, exhausted: true },
+                });
+                streamError = event.message || 'Credits exhausted';
+                break;
+
+              case 'stream_error':
+                streamError = event.error || 'Streaming failed';
+                break;
+            }
+          },
+        }
+      );
+
+      closeText();
+      if (streamError) {
+        // Surfaces as an 'error' chunk via onError, which useChat() exposes as `error`
+        throw new Error(streamError);
+      }
+    },
+    onError: (error) => {
+      console.error('❌ [API Route] Chat stream failed:', error);
+      return error instanceof Error ? error.message : 'Streaming failed';
+    },
+  });
+
+  return createUIMessageStreamResponse({
+    stream,
+    headers: { 'x-conversation-id': conversationId },
+  });
 }
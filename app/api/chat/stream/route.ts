@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { openUpstreamStream, type UpstreamStreamRequest } from '@/lib/server/upstreamStream';
+
+// Server-Sent Events fallback for clients that cannot open wss:// themselves.
+// Relays the same stream_start / content_chunk / stream_complete events as the WebSocket.
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_ROUTE_KEYS = new Set(['stream_chat', 'resume_stream']);
+
+export async function POST(request: Request) {
+  let body: UpstreamStreamRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!ALLOWED_ROUTE_KEYS.has(body?.routeKey) || !body.conversation_id) {
+    return NextResponse.json(
+      { error: 'Expected a stream_chat or resume_stream request with a conversation_id' },
+      { status: 400 }
+    );
+  }
+
+  console.log('📤 [API Route] SSE stream request:', {
+    routeKey: body.routeKey,
+    conversation_id: body.conversation_id,
+  });
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (event: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      openUpstreamStream(body, { onEvent: send, signal: request.signal })
+        .catch((error) => {
+          console.error('❌ [API Route] Upstream stream failed:', error);
+          send({
+            type: 'stream_error',
+            conversation_id: body.conversation_id,
+            error: error instanceof Error ? error.message : 'Streaming failed',
+          });
+        })
+        .finally(() => {
+          if (closed) return;
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Client already disconnected
+          }
+        });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
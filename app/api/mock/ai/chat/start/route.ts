@@ -0,0 +1,6 @@
+import { startChat, mockRoute } from '@/lib/server/mockBackend';
+
+// Mock of POST /ai/chat/start: creates the conversation and deducts coins (once per Idempotency-Key)
+export const POST = mockRoute(async (request: Request) =>
+  startChat(await request.json(), request.headers.get('Idempotency-Key'))
+);
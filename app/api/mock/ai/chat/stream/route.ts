@@ -0,0 +1,11 @@
+import { createStreamScript, mockRoute, MockBackendError } from '@/lib/server/mockBackend';
+
+// Not a backend endpoint: MockWebSocket (lib/services/mockWebSocket.ts) fetches the events
+// a stream_chat produces here and replays them like the API Gateway socket would
+export const POST = mockRoute(async (request: Request) => {
+  const body = await request.json().catch(() => ({}));
+  if (!body.conversation_id) {
+    throw new MockBackendError('conversation_id is required', 400);
+  }
+  return { events: createStreamScript(body.conversation_id) };
+});
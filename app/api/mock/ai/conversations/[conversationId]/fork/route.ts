@@ -0,0 +1,11 @@
+import { forkConversation, mockRoute } from '@/lib/server/mockBackend';
+
+interface RouteContext {
+  params: Promise<{ conversationId: string }>;
+}
+
+// Mock of POST /ai/conversations/{id}/fork
+export const POST = mockRoute(async (request: Request, { params }: RouteContext) => {
+  const { conversationId } = await params;
+  return forkConversation(conversationId, await request.json());
+});
@@ -0,0 +1,22 @@
+import { getConversation, updateConversation, deleteConversation, mockRoute } from '@/lib/server/mockBackend';
+
+interface RouteContext {
+  params: Promise<{ conversationId: string }>;
+}
+
+// Mock of GET / PATCH / DELETE /ai/conversations/{id}
+export const GET = mockRoute(async (_request: Request, { params }: RouteContext) => {
+  const { conversationId } = await params;
+  return getConversation(conversationId);
+});
+
+export const PATCH = mockRoute(async (request: Request, { params }: RouteContext) => {
+  const { conversationId } = await params;
+  return updateConversation(conversationId, await request.json());
+});
+
+export const DELETE = mockRoute(async (_request: Request, { params }: RouteContext) => {
+  const { conversationId } = await params;
+  deleteConversation(conversationId);
+  return { success: true, message: 'Conversation deleted' };
+});
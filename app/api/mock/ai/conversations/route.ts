@@ -0,0 +1,10 @@
+import { listConversations, mockRoute } from '@/lib/server/mockBackend';
+
+// Mock of GET /ai/conversations
+export const GET = mockRoute((request: Request) => {
+  const params = new URL(request.url).searchParams;
+  return listConversations(params.get('device_id'), parseInt(params.get('limit') || '50'), {
+    cursor: params.get('cursor') || undefined,
+    offset: parseInt(params.get('offset') || '0'),
+  });
+});
@@ -0,0 +1,10 @@
+import { createDeviceSession, mockRoute, MockBackendError } from '@/lib/server/mockBackend';
+
+// Mock of POST /auth/device-session (see lib/server/mockBackend.ts)
+export const POST = mockRoute(async (request: Request) => {
+  const body = await request.json().catch(() => ({}));
+  if (!body.device_id) {
+    throw new MockBackendError('device_id is required', 400);
+  }
+  return createDeviceSession(body.device_id);
+});
@@ -0,0 +1,11 @@
+import { validateDeviceSession, mockRoute, MockBackendError } from '@/lib/server/mockBackend';
+
+// Mock of GET /auth/device-session/validate
+export const GET = mockRoute((request: Request) => {
+  const sessionId = new URL(request.url).searchParams.get('session_id') || '';
+  const session = validateDeviceSession(sessionId);
+  if (!session) {
+    throw new MockBackendError('Session not found or expired', 401);
+  }
+  return session;
+});
@@ -0,0 +1,7 @@
+import { getCoinsBalance, mockRoute } from '@/lib/server/mockBackend';
+
+// Mock of GET /coins/balance
+export const GET = mockRoute((request: Request) => {
+  const deviceId = new URL(request.url).searchParams.get('device_id') || 'mock-device';
+  return getCoinsBalance(deviceId);
+});
@@ -0,0 +1,4 @@
+import { mockRoute } from '@/lib/server/mockBackend';
+
+// Mock of GET /health
+export const GET = mockRoute(() => ({ status: 'ok', backend: 'mock' }));
@@ -0,0 +1,4 @@
+import { MOCK_MODELS, mockRoute } from '@/lib/server/mockBackend';
+
+// Mock of GET /routing/models
+export const GET = mockRoute(() => ({ models: MOCK_MODELS, total_count: MOCK_MODELS.length }));
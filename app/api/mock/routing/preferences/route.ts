@@ -0,0 +1,15 @@
+import { getModelPreference, setModelPreference, mockRoute } from '@/lib/server/mockBackend';
+
+// Mock of GET / POST / DELETE /routing/preferences
+function getDeviceId(request: Request): string {
+  return new URL(request.url).searchParams.get('device_id') || 'mock-device';
+}
+
+export const GET = mockRoute((request: Request) => getModelPreference(getDeviceId(request)));
+
+export const POST = mockRoute(async (request: Request) => {
+  const body = await request.json().catch(() => ({}));
+  return setModelPreference(getDeviceId(request), body.model_id);
+});
+
+export const DELETE = mockRoute((request: Request) => setModelPreference(getDeviceId(request), null));
@@ -0,0 +1,7 @@
+import { getModelPreference, mockRoute } from '@/lib/server/mockBackend';
+
+// Mock of GET /routing/stats (the current model preference)
+export const GET = mockRoute((request: Request) => {
+  const deviceId = new URL(request.url).searchParams.get('device_id') || 'mock-device';
+  return getModelPreference(deviceId);
+});
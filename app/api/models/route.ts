@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server';
+import config from '@/lib/config';
 
-// Environment-specific API endpoints
+// Environment-specific API endpoints (see lib/config.ts)
 // Production: https://api.vedika.ai.in
 // Preprod: https://preprod.api.vedika.ai.in
 // UAT: https://uat.api.vedika.ai.in
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.vedika.ai.in';
+// Mock: /api/mock when NEXT_PUBLIC_USE_MOCK_BACKEND=true
+const API_BASE_URL = config.api.baseUrl;
 
 export async function GET() {
   try {
@@ -2,22 +2,28 @@
 
 import React, { useEffect, useRef, use, useState } from 'react';
 import { createPortal } from 'react-dom';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { apiService } from '@/lib/services/api';
 import { DeviceManager } from '@/lib/utils/deviceManager';
 import { appInitializer } from '@/lib/utils/appInitializer';
-import { sessionManager } from '@/lib/utils/sessionManager';
-import { coinsStore } from '@/lib/stores/coinsStore';
-import { config } from '@/lib/config';
 import { VoiceService } from '@/lib/services/voiceService';
 import { useDeepgramDictation } from '@/lib/services/deepgramDictationService';
 import VoiceModePopup from '@/components/ui/VoiceModePopup';
-import type { Message } from '@/lib/types/api';
-import { Send, Search, FileText, Sparkles, Type, Mic, MessageCircle, Loader, Globe, Paperclip, Bot } from 'lucide-react';
+import MessageRenderer from '@/components/ui/MessageRenderer';
+import SourcesPanel from '@/components/ui/SourcesPanel';
+import MessageUsageFooter from '@/components/ui/MessageUsageFooter';
+import ErrorNotice from '@/components/ui/ErrorNotice';
+import EditableTitle from '@/components/ui/EditableTitle';
+import type { ConversationUpdate, Message } from '@/lib/types/api';
+import { useChatStream, usageFromStart } from '@/hooks/useChatStream';
+import { normalizeCitations } from '@/lib/utils/citations';
+import { toServiceError, type ServiceError } from '@/lib/services/serviceErrors';
+import { useConversationBranches } from '@/hooks/useConversationBranches';
+import { useConversationMeta } from '@/hooks/useConversationMeta';
+import { branchStore } from '@/lib/stores/branchStore';
+import { Send, Search, FileText, Sparkles, Type, Mic, MessageCircle, Loader, Globe, Paperclip, Bot, Square, RotateCcw, RefreshCw, Pencil, ChevronLeft, ChevronRight, GitBranch, Clock, WifiOff, Trash2, Download, Pin, PinOff, Archive, ArchiveRestore } from 'lucide-react';
 import { routingApi, type Model } from '@/lib/services/routingApi';
-// Add WebSocket streaming imports
-import { WebSocketStreamingService } from '@/lib/services/websocketStreamingService';
-import { createWebSocketStreamRequest } from '@/lib/services/apiService';
-import { startChatConversation } from '@/lib/services/apiService';
 
 interface ChatPageProps {
   params: Promise<{
@@ -27,6 +33,7 @@ interface ChatPageProps {
 
 export default function ChatHistoryPage({ params }: ChatPageProps) {
   const { chatId } = use(params);
+  const router = useRouter();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const hasLoadedHistoryRef = useRef(false);
@@ -35,17 +42,41 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
   // Session state
   const [sessionReady, setSessionReady] = useState(false);
 
-  // Remove useChat hook - we'll handle chat manually
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Messages and their streaming lifecycle are owned by useChatStream
+  const {
+    messages,
+    isStreaming,
+    isReconnecting,
+    error,
+    setError,
+    addMessage,
+    loadMessages,
+    streamReply,
+    send,
+    queued,
+    isOnline,
+    retryQueued,
+    discardQueued,
+    cancel: handleStop,
+    retry,
+    regenerate,
+    editMessage,
+    getVersionInfo,
+    switchVersion,
+    getStreamTrace,
+  } = useChatStream(chatId);
   const [input, setInput] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [isForking, setIsForking] = useState(false);
+  const { getBranch, fork } = useConversationBranches();
+  const branch = getBranch(chatId);
+  const { applyMeta, rename, setPinned, setArchived } = useConversationMeta();
+  const [conversationInfo, setConversationInfo] = useState<ConversationUpdate>({});
+  const [conversationError, setConversationError] = useState<ServiceError | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [failedMessage, setFailedMessage] = useState<string | null>(null);
   const [selectedAgent, setSelectedAgent] = useState('search');
-  
-  // WebSocket streaming state
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
-  const wsServiceRef = useRef<WebSocketStreamingService | null>(null);
   const isConnectingRef = useRef(false);
   
   // Model selection state
@@ -105,9 +136,10 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
   useEffect(() => {
     async function initSession() {
       try {
-        // Quick check: if we have a session ID, assume it's valid (saves ~200-300ms)
+        // Quick check: if we have an unexpired session ID, use it without validating (saves ~200-300ms).
+        // If the backend has dropped it, the first call gets a 401/403 and httpClient recovers the session.
         const existingSessionId = DeviceManager.getSessionId();
-        if (existingSessionId) {
+        if (existingSessionId && !DeviceManager.isSessionExpired()) {
           console.log('⚡ [CHAT PAGE] Using existing session:', existingSessionId);
           setSessionReady(true);
           return;
@@ -124,7 +156,7 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
     }
 
     initSession();
-  }, []);
+  }, [setError]);
 
   // Load available models from API
   useEffect(() => {
@@ -157,6 +189,8 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
     
     if (pendingMessage) {
       console.log('🎬 [CHAT PAGE] Starting WebSocket streaming for pending message:', pendingMessage);
+      const pendingData = sessionStorage.getItem('pending_conversation_data');
+      const startData = pendingData ? JSON.parse(pendingData) : null;
       
       // Clean up sessionStorage first to prevent duplication
       sessionStorage.removeItem('pending_message');
@@ -166,136 +200,25 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
       if (isConnectingRef.current) return;
       isConnectingRef.current = true;
       
-      // Always add the user message since we filtered it out from loadHistory if it had no timestamp
-      setMessages(prev => {
-        // Check if this specific message already exists
-        const messageExists = prev.some(msg => 
-          msg.content === pendingMessage && 
-          msg.role === 'user' && 
-          msg.timestamp // Only check messages with timestamps
-        );
-        
-        if (messageExists) {
-          console.log('📝 [CHAT PAGE] User message already exists, skipping');
-          return prev;
-        }
-        
-        console.log('📝 [CHAT PAGE] Adding user message to conversation');
-        return [...prev, {
-          id: Date.now().toString(),
-          role: 'user',
-          content: pendingMessage,
-          timestamp: new Date().toISOString(),
-        }];
+      // History load is skipped when a message is pending, so the user message is always added here
+      addMessage({
+        id: `user-${Date.now()}`,
+        role: 'user',
+        content: pendingMessage,
+        timestamp: new Date().toISOString(),
+        status: 'complete',
       });
       
-      // Initialize WebSocket service
-      const wsService = new WebSocketStreamingService(config.api.websocketUrl);
-      wsServiceRef.current = wsService;
-      
-      // Set up callbacks
-      wsService.setCallbacks({
-        onStreamStart: (event) => {
-          console.log('🎬 Stream started:', event);
-          const messageId = Date.now().toString();
-          setStreamingMessageId(messageId);
-          setMessages(prev => [...prev, {
-            id: messageId,
-            role: 'assistant',
-            content: '',
-            timestamp: new Date().toISOString(),
-          }]);
-          setIsStreaming(true);
-        },
-        
-        onContentChunk: (event) => {
-          console.log('📦 Chunk received:', event.content);
-          setMessages(prev => prev.map(msg => {
-            // Find the last assistant message with empty or minimal content (the streaming one)
-            const lastAssistantIndex = prev.map((m, i) => ({ m, i })).reverse().find(({ m }) => m.role === 'assistant');
-            if (lastAssistantIndex && msg.id === lastAssistantIndex.m.id) {
-              return { ...msg, content: msg.content + event.content };
-            }
-            return msg;
-          }));
-        },
-        
-        onStreamComplete: (event) => {
-          console.log('✅ Stream complete:', event);
-          setMessages(prev => prev.map((msg, idx) => {
-            // Find the last assistant message
-            const lastAssistantIndex = prev.map((m, i) => ({ m, i })).reverse().findIndex(({ m }) => m.role === 'assistant');
-            if (lastAssistantIndex !== -1 && idx === prev.length - 1 - lastAssistantIndex && msg.role === 'assistant') {
-              return { ...msg, content: event.full_response || msg.content };
-            }
-            return msg;
-          }));
-          setStreamingMessageId(null);
-          setIsStreaming(false);
-          
-          // DO NOT update coins from WebSocket, it might be stale.
-          // The REST API call is the source of truth.
-          if (event.credits?.remaining) {
-            console.log(`ℹ️ [CHAT PAGE] WebSocket stream_complete reports ${event.credits.remaining} coins, but we are ignoring it.`);
-          }
-          
-          // Disconnect after a delay
-          setTimeout(() => {
-            if (wsServiceRef.current) {
-              wsServiceRef.current.disconnect();
-            }
-          }, 1000);
-        },
-        
-        onStreamError: (error) => {
-          console.error('❌ Stream error:', error);
-          setIsStreaming(false);
-        },
-        
-        onCreditsInfo: (data) => {
-          console.log('🪙 Credits info:', data);
-          coinsStore.updateFromChatResponse(data.vedika_coins_remaining);
-        },
-        
-        onCreditsExhausted: (data) => {
-          console.warn('⚠️ Credits exhausted:', data);
-          coinsStore.updateFromChatResponse(data.vedika_coins_remaining);
-          // Could show a modal or notification here if needed
-        }
+      streamReply(pendingMessage, {
+        usage: startData ? usageFromStart(startData) : undefined,
+        startedAt: startData?.started_at,
       });
       
-      // Connect and stream
-      const connectAndStream = async () => {
-        try {
-          await wsService.connect();
-          console.log('✅ WebSocket connected');
-          
-          const request = createWebSocketStreamRequest(
-            chatId,
-            pendingMessage,
-            DeviceManager.getSessionId() || '',
-            DeviceManager.getDeviceId() || '',
-            'anonymous'
-          );
-          
-          wsService.sendMessage(request);
-          console.log('📡 Streaming request sent for conversation:', chatId);
-        } catch (error) {
-          console.error('❌ Failed to connect WebSocket:', error);
-        }
-      };
-      
-      connectAndStream();
-      
-      // Cleanup
       return () => {
-        if (wsServiceRef.current) {
-          wsServiceRef.current.disconnect();
-        }
         isConnectingRef.current = false;
       };
     }
-  }, [chatId, sessionReady]);
+  }, [chatId, sessionReady, addMessage, streamReply]);
 
   // Handle speech recognition transcript updates
   useEffect(() => {
@@ -344,139 +267,96 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
 
     const userMessage = input.trim();
     setInput('');
+    await submitMessage(userMessage);
+  };
+
+  const submitMessage = async (userMessage: string) => {
     setIsLoading(true);
     setError(null);
-
-    // Add user message to chat
-    const newUserMessage: Message = {
-      id: `user-${Date.now()}`,
-      role: 'user',
-      content: userMessage,
-      timestamp: new Date().toISOString(),
-    };
-    setMessages(prev => [...prev, newUserMessage]);
+    setFailedMessage(null);
 
     try {
       console.log('📤 [CHAT PAGE] Submitting follow-up message via REST API first...');
       
-      // ✅ STEP 1: Call REST API to start conversation and deduct coins
-      const result = await startChatConversation({
-        message: userMessage,
-        session_id: DeviceManager.getSessionId() || '',
-        device_id: DeviceManager.getDeviceId(),
-        model_id: selectedModel,
-        interaction_mode: interactionMode,
-      });
-      
-      console.log('✅ [CHAT PAGE] REST API call successful:', result);
-      
-      // ✅ STEP 2: Update coins immediately from REST API response
-      coinsStore.updateFromChatResponse(result.vedika_coins_remaining);
-      console.log(`✅ Coins updated: ${result.vedika_coins_remaining} remaining`);
-
-      // ✅ STEP 3: Now connect and stream with WebSocket
-      let wsService = wsServiceRef.current;
-      if (!wsService || (wsService as any).ws?.readyState !== WebSocket.OPEN) {
-        console.log('🔌 Creating new WebSocket connection for follow-up message');
-        wsService = new WebSocketStreamingService(config.api.websocketUrl);
-        wsServiceRef.current = wsService;
-      }
-      
-      // Set up callbacks
-      wsService.setCallbacks({
-        onStreamStart: (event) => {
-          console.log('🎬 Stream started for follow-up:', event);
-          const messageId = Date.now().toString();
-          setStreamingMessageId(messageId);
-          setMessages(prev => [...prev, {
-            id: messageId,
-            role: 'assistant',
-            content: '',
-            timestamp: new Date().toISOString(),
-          }]);
-          setIsStreaming(true);
-        },
-        onContentChunk: (event) => {
-          console.log('📦 Chunk received for follow-up:', event.content);
-          setMessages(prev => prev.map(msg => {
-            const lastAssistantIndex = prev.map((m, i) => ({ m, i })).reverse().find(({ m }) => m.role === 'assistant');
-            if (lastAssistantIndex && msg.id === lastAssistantIndex.m.id) {
-              return { ...msg, content: msg.content + event.content };
-            }
-            return msg;
-          }));
-        },
-        onStreamComplete: (event) => {
-          console.log('✅ Stream complete for follow-up:', event);
-          setMessages(prev => prev.map((msg, idx) => {
-            const lastAssistantIndex = prev.map((m, i) => ({ m, i })).reverse().findIndex(({ m }) => m.role === 'assistant');
-            if (lastAssistantIndex !== -1 && idx === prev.length - 1 - lastAssistantIndex && msg.role === 'assistant') {
-              return { ...msg, content: event.full_response || msg.content };
-            }
-            return msg;
-          }));
-          setStreamingMessageId(null);
-          setIsStreaming(false);
-          setIsLoading(false); // ✅ Stop showing "Thinking..."
-          
-          // DO NOT update coins from WebSocket, it might be stale.
-          // The REST API call is the source of truth.
-          if (event.credits?.remaining) {
-            console.log(`ℹ️ [CHAT PAGE] WebSocket stream_complete reports ${event.credits.remaining} coins, but we are ignoring it.`);
-          }
-          
-          // Disconnect after a delay
-          setTimeout(() => {
-            if (wsServiceRef.current && wsServiceRef.current === wsService) {
-              wsServiceRef.current.disconnect();
-            }
-          }, 1000);
-        },
-        onStreamError: (error) => {
-          console.error('❌ Stream error for follow-up:', error);
-          setIsStreaming(false);
-          setIsLoading(false);
-        },
-        onCreditsInfo: (data) => {
-          console.log('🪙 Credits info for follow-up:', data);
-          coinsStore.updateFromChatResponse(data.vedika_coins_remaining);
-        },
-        onCreditsExhausted: (data) => {
-          console.warn('⚠️ Credits exhausted for follow-up:', data);
-          coinsStore.updateFromChatResponse(data.vedika_coins_remaining);
-        }
+      // REST start (deducts coins) then stream over the shared WebSocket connection
+      const result = await send(userMessage, {
+        modelId: selectedModel,
+        interactionMode,
       });
       
-      // Connect and send message
-      if ((wsService as any).ws?.readyState !== WebSocket.OPEN) {
-        await wsService.connect();
-        console.log('✅ WebSocket connected for follow-up message');
-      }
-      
-      // Use the conversation_id from the REST API response
-      const request = createWebSocketStreamRequest(
-        result.conversation_id, // ✅ Use new conversation ID from REST API
-        userMessage,
-        DeviceManager.getSessionId() || '',
-        DeviceManager.getDeviceId() || '',
-        'anonymous'
-      );
-      
-      wsService.sendMessage(request);
-      console.log('📡 Follow-up message sent via WebSocket using new conversation data');
-      
-    } catch (error: any) {
-      console.error('❌ [CHAT PAGE] Error sending follow-up message:', error);
-      // Handle out of coins error
-      if (error.message && error.message.includes('exhausted')) {
-        setError('You have run out of Vedika coins.');
+      if (result) {
+        console.log('✅ [CHAT PAGE] Follow-up streaming for conversation:', result.conversation_id);
       } else {
-        setError(`Error sending message: ${error.message || 'Unknown error'}`);
+        console.log('📮 [CHAT PAGE] Follow-up queued until the connection is back');
       }
+    } catch (error) {
+      console.error('❌ [CHAT PAGE] Error sending follow-up message:', error);
+      setError(toServiceError(error, 'Failed to send message'));
+      setFailedMessage(userMessage); // ErrorNotice offers to send it again
+    } finally {
       setIsLoading(false);
     }
   };
 
+  const handleRegenerate = (assistantId: string) => {
+    if (isStreaming) return;
+    regenerate(assistantId, { modelId: selectedModel, interactionMode });
+  };
+
+  const handleStartEdit = (message: Message) => {
+    setEditingMessageId(message.id ?? null);
+    setEditText(message.content);
+  };
+
+  const handleSaveEdit = () => {
+    const text = editText.trim();
+    if (!editingMessageId || !text || isStreaming) return;
+    editMessage(editingMessageId, text, { modelId: selectedModel, interactionMode });
+    setEditingMessageId(null);
+    setEditText('');
+  };
+
+  const handleFork = async (messageId: string) => {
+    const index = messages.findIndex(message => message.id === messageId);
+    if (index === -1 || isForking || isStreaming) return;
+
+    const history = messages.slice(0, index + 1);
+    const firstQuestion = history.find(message => message.role === 'user')?.content ?? 'Chat';
+    const title = `${firstQuestion.slice(0, 40)}${firstQuestion.length > 40 ? '…' : ''} (fork)`;
+
+    setIsForking(true);
+    try {
+      const newBranch = await fork(chatId, messageId, history, title);
+      console.log('🌿 [CHAT PAGE] Forked conversation:', newBranch.conversation_id);
+      // Seed the new chat page so it doesn't wait for the backend copy
+      sessionStorage.setItem(`chat-${newBranch.conversation_id}`, JSON.stringify(newBranch.messages ?? history));
+      router.push(`/chat/${newBranch.conversation_id}`);
+    } catch (forkError) {
+      console.error('❌ [CHAT PAGE] Failed to fork conversation:', forkError);
+      setError(toServiceError(forkError, 'Could not fork this chat'));
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  // Save the recorded stream of a reply for /dev/replay (NEXT_PUBLIC_STREAM_RECORDING)
+  const handleDownloadTrace = (messageId: string) => {
+    const trace = getStreamTrace(messageId);
+    if (!trace) return;
+    const url = URL.createObjectURL(new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stream-trace-${trace.conversation_id}-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Keep the thread of a local fork so it survives a reload
+  useEffect(() => {
+    if (!branch?.local || isStreaming || messages.length === 0) return;
+    branchStore.saveMessages(chatId, messages);
+  }, [branch?.local, chatId, isStreaming, messages]);
+
   // Load conversation history on mount
   useEffect(() => {
     if (hasLoadedHistoryRef.current) return;
@@ -496,7 +376,7 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
         if (cachedMessages) {
           console.log('💾 [CHAT PAGE] Loading messages from sessionStorage');
           const initialMessages = JSON.parse(cachedMessages);
-          setMessages(initialMessages);
+          loadMessages(initialMessages);
           sessionStorage.removeItem(`chat-${chatId}`); // Clean up
           console.log('✅ [CHAT PAGE] Loaded from cache:', {
             messageCount: initialMessages.length,
@@ -504,6 +384,14 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
           return; // Skip API call if we have cached messages
         }
 
+        // Local forks only exist in this browser
+        const localFork = branchStore.get(chatId);
+        if (localFork?.local) {
+          console.log('🌿 [CHAT PAGE] Loading local fork:', chatId);
+          loadMessages(localFork.messages ?? []);
+          return;
+        }
+
         console.log('📖 [CHAT PAGE] Loading conversation history from API for:', chatId);
         
         const result = await apiService.getConversation(chatId);
@@ -519,6 +407,7 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
           messageCount: data.messages?.length || 0,
           title: data.title,
         });
+        setConversationInfo({ title: data.title, pinned: data.pinned, archived: data.archived });
 
         // Convert backend messages to our format
         let formattedMessages = (data.messages || [])
@@ -527,6 +416,10 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
             role: msg.role as 'user' | 'assistant',
             content: msg.content,
             timestamp: msg.timestamp,
+            citations: normalizeCitations(msg.citations),
+            usage: msg.role === 'assistant' && (msg.model || msg.tokens_used)
+              ? { model: msg.model, model_name: msg.model_name, tokens: msg.tokens_used }
+              : undefined,
           }))
           .sort((a, b) => {
             // Sort by timestamp to ensure correct order
@@ -542,7 +435,7 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
           formattedMessages = formattedMessages.slice(1);
         }
 
-        setMessages(formattedMessages);
+        loadMessages(formattedMessages);
         
         console.log('📝 [CHAT PAGE] Messages set from API:', {
           count: formattedMessages.length,
@@ -554,7 +447,7 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
     }
 
     loadHistory();
-  }, [chatId]);
+  }, [chatId, loadMessages]);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -711,20 +604,86 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
     }
   };
 
+  // Title, pin and archive state, including changes only kept in this browser
+  const conversation = applyMeta({ conversation_id: chatId, ...conversationInfo });
+  const firstUserMessage = messages.find(message => message.role === 'user')?.content;
+  const conversationTitle = conversation.title || branch?.title
+    || (firstUserMessage ? `${firstUserMessage.slice(0, 60)}${firstUserMessage.length > 60 ? '…' : ''}` : 'New chat');
+
+  const handleRename = async (title: string) => {
+    await rename(chatId, title);
+    setConversationInfo(prev => ({ ...prev, title }));
+  };
+
+  const handleConversationChange = async (changes: ConversationUpdate) => {
+    setConversationError(null);
+    try {
+      if (changes.pinned !== undefined) await setPinned(chatId, changes.pinned);
+      if (changes.archived !== undefined) await setArchived(chatId, changes.archived);
+      setConversationInfo(prev => ({ ...prev, ...changes }));
+    } catch (updateError) {
+      setConversationError(toServiceError(updateError, 'Failed to update conversation'));
+    }
+  };
+
   return (
     <div className="h-full flex flex-col overflow-hidden">
       <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
         <div className="max-w-4xl mx-auto">
           {/* Header */}
           <div className="mb-6">
-            <h1 className="text-3xl font-bold text-secondary-900 mb-2">
-              Chat
-            </h1>
+            <div className="flex items-center gap-2 mb-2">
+              <h1 className="flex-1 min-w-0 flex items-center text-3xl font-bold text-secondary-900">
+                <EditableTitle value={conversationTitle} onSave={handleRename} />
+              </h1>
+              <button
+                type="button"
+                onClick={() => handleConversationChange({ pinned: !conversation.pinned })}
+                className={`p-2 rounded-lg hover:bg-secondary-100 ${conversation.pinned ? 'text-primary-600' : 'text-secondary-500'}`}
+                aria-label={conversation.pinned ? 'Unpin conversation' : 'Pin conversation'}
+                title={conversation.pinned ? 'Unpin' : 'Pin to top'}
+              >
+                {conversation.pinned ? <PinOff className="w-5 h-5" /> : <Pin className="w-5 h-5" />}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleConversationChange({ archived: !conversation.archived })}
+                className="p-2 rounded-lg text-secondary-500 hover:bg-secondary-100"
+                aria-label={conversation.archived ? 'Restore conversation' : 'Archive conversation'}
+                title={conversation.archived ? 'Restore from archive' : 'Archive'}
+              >
+                {conversation.archived ? <ArchiveRestore className="w-5 h-5" /> : <Archive className="w-5 h-5" />}
+              </button>
+            </div>
             <div className="flex items-center gap-4 text-sm text-secondary-600">
-              <span>Conversation ID: {chatId}</span>
-              <span>•</span>
+              {conversation.archived && (
+                <>
+                  <span className="px-2 py-0.5 rounded-full bg-secondary-200 text-secondary-700 text-xs font-medium">Archived</span>
+                  <span>•</span>
+                </>
+              )}
               <span>{messages.length} messages</span>
+              {branch && (
+                <>
+                  <span>•</span>
+                  <Link
+                    href={`/chat/${branch.parent_conversation_id}`}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary-100 text-primary-800 text-xs font-medium hover:bg-primary-200"
+                    title="Open the conversation this chat was forked from"
+                  >
+                    <GitBranch className="w-3 h-3" />
+                    Forked from parent chat
+                  </Link>
+                </>
+              )}
             </div>
+            {conversationError && (
+              <ErrorNotice
+                error={conversationError}
+                onDismiss={() => setConversationError(null)}
+                className="mt-3"
+              />
+            )}
           </div>
           
           {/* Messages */}
@@ -743,41 +702,216 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
                     ? 'bg-secondary-100'
                     : 'bg-primary-50 border border-primary-200'
                 }`}>
-                  <p className="text-secondary-900 whitespace-pre-line">
-                    {message.content}
-                    {isStreaming && message.role === 'assistant' && messages.indexOf(message) === messages.length - 1 && (
-                      <span className="inline-block w-2 h-4 bg-primary-600 animate-pulse ml-1">▋</span>
-                    )}
-                  </p>
-                  {message.timestamp && (
-                    <p className="text-xs text-secondary-400 mt-2">
-                      {formatTimestamp(message.timestamp)}
+                  {message.status === 'pending' ? (
+                    <div className="flex items-center gap-2 text-secondary-600">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
+                      <p className="text-sm">{isReconnecting ? 'Reconnecting…' : 'Thinking...'}</p>
+                    </div>
+                  ) : (
+                    <>
+                      {message.role === 'assistant' ? (
+                        <MessageRenderer
+                          content={message.content}
+                          citations={message.citations}
+                          isStreaming={message.status === 'streaming'}
+                        />
+                      ) : editingMessageId === message.id ? (
+                        <div className="space-y-2">
+                          <textarea
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            rows={3}
+                            autoFocus
+                            className="w-full rounded-lg border border-secondary-300 bg-white p-2 text-secondary-900 focus:outline-none focus:ring-2 focus:ring-primary-400"
+                          />
+                          <div className="flex justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setEditingMessageId(null)}
+                              className="px-3 py-1 text-xs rounded-lg text-secondary-600 hover:bg-secondary-200"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="button"
+                              onClick={handleSaveEdit}
+                              disabled={!editText.trim() || isStreaming}
+                              className="px-3 py-1 text-xs rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+                            >
+                              Save & send
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <p className="text-secondary-900 whitespace-pre-line">{message.content}</p>
+                      )}
+                      {message.status === 'streaming' && !isReconnecting && (
+                        <span className="inline-block w-2 h-4 bg-primary-600 animate-pulse ml-1">▋</span>
+                      )}
+                    </>
+                  )}
+                  {message.status === 'streaming' && isReconnecting && (
+                    <div className="flex items-center gap-2 mt-2 text-xs text-secondary-500">
+                      <Loader className="w-3 h-3 animate-spin" />
+                      <span>Reconnecting…</span>
+                    </div>
+                  )}
+                  {message.status === 'error' && (
+                    <div className="flex items-center gap-3 mt-2">
+                      <p className="text-xs text-red-600">{message.error || 'Failed to generate a response'}</p>
+                      {message.retryable && message.id && (
+                        <button
+                          type="button"
+                          onClick={() => retry(message.id!)}
+                          disabled={isStreaming}
+                          className="flex items-center gap-1 text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {message.citations && message.status !== 'streaming' && (
+                    <SourcesPanel citations={message.citations} />
+                  )}
+                  {message.truncated && (
+                    <p className="text-xs italic text-secondary-500 mt-2">Response stopped</p>
+                  )}
+                  {message.usage && (message.status === 'complete' || message.status === 'cancelled') && (
+                    <MessageUsageFooter usage={message.usage} />
+                  )}
+                  {message.integrity && (
+                    <p className="text-xs text-amber-600 mt-2">
+                      Some of this response arrived out of order or incomplete ({message.integrity.received_chunks}
+                      {message.integrity.expected_chunks !== null && ` of ${message.integrity.expected_chunks}`} chunks received)
                     </p>
                   )}
+                  <div className="flex items-center gap-3 mt-2 text-xs text-secondary-400">
+                    {message.timestamp && <span>{formatTimestamp(message.timestamp)}</span>}
+                    {message.id && (() => {
+                      const version = getVersionInfo(message.id);
+                      return version && (
+                        <div className="flex items-center gap-1">
+                          <button
+                            type="button"
+                            onClick={() => switchVersion(version.parentKey, version.current - 2)}
+                            disabled={isStreaming || version.current === 1}
+                            className="p-0.5 rounded hover:bg-secondary-200 disabled:opacity-40"
+                            aria-label="Previous version"
+                          >
+                            <ChevronLeft className="w-3 h-3" />
+                          </button>
+                          <span>{version.current}/{version.total}</span>
+                          <button
+                            type="button"
+                            onClick={() => switchVersion(version.parentKey, version.current)}
+                            disabled={isStreaming || version.current === version.total}
+                            className="p-0.5 rounded hover:bg-secondary-200 disabled:opacity-40"
+                            aria-label="Next version"
+                          >
+                            <ChevronRight className="w-3 h-3" />
+                          </button>
+                        </div>
+                      );
+                    })()}
+                    {message.id && !isStreaming && (message.status === 'complete' || message.status === 'cancelled') && (
+                      <button
+                        type="button"
+                        onClick={() => handleFork(message.id!)}
+                        disabled={isForking}
+                        className="flex items-center gap-1 hover:text-secondary-700 disabled:opacity-50"
+                        title="Start a new chat with the conversation up to this message"
+                      >
+                        <GitBranch className="w-3 h-3" />
+                        Fork from here
+                      </button>
+                    )}
+                    {message.id && message.role === 'assistant' && getStreamTrace(message.id) && (
+                      <button
+                        type="button"
+                        onClick={() => handleDownloadTrace(message.id!)}
+                        className="flex items-center gap-1 hover:text-secondary-700"
+                        title="Download the recorded stream of this reply"
+                      >
+                        <Download className="w-3 h-3" />
+                        Trace
+                      </button>
+                    )}
+                    {message.id && !isStreaming && editingMessageId !== message.id && (
+                      message.role === 'user' ? (
+                        <button
+                          type="button"
+                          onClick={() => handleStartEdit(message)}
+                          className="flex items-center gap-1 hover:text-secondary-700"
+                        >
+                          <Pencil className="w-3 h-3" />
+                          Edit
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => handleRegenerate(message.id!)}
+                          className="flex items-center gap-1 hover:text-secondary-700"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                          Regenerate
+                        </button>
+                      )
+                    )}
+                  </div>
                 </div>
               </div>
             ))}
-            
-            {/* Loading Indicator */}
-            {isLoading && (
-              <div className="flex gap-3">
-                <div className="w-8 h-8 rounded-full flex items-center justify-center text-white font-semibold flex-shrink-0 text-xs bg-gradient-to-br from-primary-500 to-primary-700">
-                  AI
+
+            {/* Outbox: messages waiting for the connection to come back */}
+            {queued.map((item) => (
+              <div key={item.id} className="flex gap-3">
+                <div className="w-8 h-8 rounded-full flex items-center justify-center text-white font-semibold flex-shrink-0 text-xs bg-gradient-to-br from-secondary-400 to-secondary-600 opacity-70">
+                  You
                 </div>
-                <div className="flex-1 rounded-lg p-3 bg-primary-50 border border-primary-200">
-                  <div className="flex items-center gap-2 text-secondary-600">
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
-                    <p className="text-sm">Thinking...</p>
+                <div className="flex-1 rounded-lg p-3 bg-secondary-50 border border-dashed border-secondary-300">
+                  <p className="text-secondary-700 whitespace-pre-wrap">{item.text}</p>
+                  <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-secondary-500">
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 font-medium">
+                      {isOnline ? <Clock className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+                      Queued
+                    </span>
+                    <span>
+                      {isOnline
+                        ? (item.last_error ? `Couldn't reach the server (${item.attempts} ${item.attempts === 1 ? 'attempt' : 'attempts'})` : 'Sending soon…')
+                        : 'Will send when you are back online'}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => retryQueued(item.id)}
+                      disabled={!isOnline || isStreaming}
+                      className="flex items-center gap-1 hover:text-secondary-700 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Retry
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => discardQueued(item.id)}
+                      className="flex items-center gap-1 hover:text-red-600"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      Discard
+                    </button>
                   </div>
                 </div>
               </div>
-            )}
+            ))}
             
             {/* Error Display */}
             {error && (
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-sm">
-                <strong>Error:</strong> {error}
-              </div>
+              <ErrorNotice
+                error={error}
+                onRetry={failedMessage && !isStreaming ? () => submitMessage(failedMessage) : undefined}
+                onDismiss={() => setError(null)}
+                onUseBestModel={() => setSelectedModel('best')}
+              />
             )}
             
             {/* Scroll anchor */}
@@ -970,19 +1104,31 @@ export default function ChatHistoryPage({ params }: ChatPageProps) {
                   })}
                 </div>
 
-                {/* Submit Button - Always visible */}
-                <button
-                  type="submit"
-                  disabled={!sessionReady || isLoading || !input?.trim()}
-                  className="p-1.5 bg-gradient-to-br from-primary-500 to-primary-600 text-white rounded-lg hover:from-primary-600 hover:to-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg"
-                  title={isLoading ? "Sending..." : "Send message"}
-                >
-                  {isLoading ? (
-                    <Loader className="w-2.5 h-2.5 animate-spin" />
-                  ) : (
-                    <Send className="w-2.5 h-2.5" />
-                  )}
-                </button>
+                {/* Stop Button - replaces submit while an answer is streaming */}
+                {isStreaming ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="p-1.5 bg-gradient-to-br from-primary-500 to-primary-600 text-white rounded-lg hover:from-primary-600 hover:to-primary-700 transition-all shadow-md hover:shadow-lg"
+                    title="Stop generating"
+                    aria-label="Stop generating"
+                  >
+                    <Square className="w-2.5 h-2.5 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!sessionReady || isLoading || !input?.trim()}
+                    className="p-1.5 bg-gradient-to-br from-primary-500 to-primary-600 text-white rounded-lg hover:from-primary-600 hover:to-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg"
+                    title={isLoading ? "Sending..." : "Send message"}
+                  >
+                    {isLoading ? (
+                      <Loader className="w-2.5 h-2.5 animate-spin" />
+                    ) : (
+                      <Send className="w-2.5 h-2.5" />
+                    )}
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,369 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Archive, ArchiveRestore, GitBranch, Pin, RefreshCw, Search, Trash2 } from 'lucide-react';
+import InfiniteScrollList from '@/components/ui/InfiniteScrollList';
+import ErrorNotice from '@/components/ui/ErrorNotice';
+import { useConversationList } from '@/hooks/useConversationList';
+import { useConversationBranches } from '@/hooks/useConversationBranches';
+import { useConversationMeta } from '@/hooks/useConversationMeta';
+import { apiService } from '@/lib/services/api';
+import { branchStore, branchToConversation } from '@/lib/stores/branchStore';
+import { conversationMetaStore } from '@/lib/stores/conversationMetaStore';
+import { toServiceError, type ServiceError } from '@/lib/services/serviceErrors';
+import type { Conversation } from '@/lib/types/api';
+import {
+  DEFAULT_CONVERSATION_FILTERS,
+  distinctValues,
+  filterConversations,
+  isFiltering,
+  type ConversationDateRange,
+  type ConversationFilters,
+  type ConversationSort,
+  type ConversationStatus,
+} from '@/lib/utils/conversationFilters';
+
+const DATE_RANGES: { value: ConversationDateRange; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'month', label: 'Last 30 days' },
+  { value: 'older', label: 'Older than 30 days' },
+];
+
+const STATUSES: { value: ConversationStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'archived', label: 'Archived' },
+  { value: 'all', label: 'Active and archived' },
+];
+
+const SORTS: { value: ConversationSort; label: string }[] = [
+  { value: 'updated_desc', label: 'Recently updated' },
+  { value: 'updated_asc', label: 'Least recently updated' },
+  { value: 'created_desc', label: 'Recently created' },
+  { value: 'title', label: 'Title (A–Z)' },
+  { value: 'messages', label: 'Most messages' },
+  { value: 'tokens', label: 'Most tokens' },
+];
+
+const selectClasses = 'border border-secondary-300 rounded-lg px-2 py-2 text-sm bg-white text-secondary-700';
+
+function formatUpdatedAt(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return '—';
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function ChatHistoryPage() {
+  const router = useRouter();
+  const chatHistory = useConversationList();
+  const { branches, getBranch } = useConversationBranches();
+  const { applyMeta, setArchived } = useConversationMeta();
+
+  const [filters, setFilters] = useState<ConversationFilters>(DEFAULT_CONVERSATION_FILTERS);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<ServiceError | null>(null);
+
+  // Forks made locally (backend without a fork endpoint) aren't in the API list
+  const conversations = useMemo(() => {
+    const listed = new Set(chatHistory.conversations.map(chat => chat.conversation_id));
+    const localForks = branches
+      .filter(branch => branch.local && !listed.has(branch.conversation_id))
+      .map(branchToConversation);
+    return [...localForks, ...chatHistory.conversations].map(applyMeta);
+  }, [chatHistory.conversations, branches, applyMeta]);
+
+  // Filters only see loaded pages; the list keeps pulling in pages while its end is visible
+  const visible = useMemo(() => filterConversations(conversations, filters), [conversations, filters]);
+  const models = useMemo(() => distinctValues(conversations, 'model'), [conversations]);
+  const sessionTypes = useMemo(() => distinctValues(conversations, 'session_type'), [conversations]);
+
+  // Only what the filters show can be deleted, so nothing hidden goes with it
+  const selectedVisible = visible.filter(chat => selected.has(chat.conversation_id));
+  const allVisibleSelected = visible.length > 0 && selectedVisible.length === visible.length;
+
+  const updateFilter = <K extends keyof ConversationFilters>(key: K, value: ConversationFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setIsConfirmingDelete(false);
+  };
+
+  const toggleSelected = (conversationId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(conversationId)) {
+        next.delete(conversationId);
+      } else {
+        next.add(conversationId);
+      }
+      return next;
+    });
+    setIsConfirmingDelete(false);
+  };
+
+  const toggleAllVisible = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map(chat => chat.conversation_id)));
+    setIsConfirmingDelete(false);
+  };
+
+  const deleteConversation = async (conversationId: string): Promise<ServiceError | null> => {
+    if (getBranch(conversationId)?.local) {
+      branchStore.remove(conversationId);
+      conversationMetaStore.remove(conversationId);
+      return null;
+    }
+
+    const result = await apiService.deleteConversation(conversationId);
+    if (!result.success) return toServiceError(result.error, 'Failed to delete conversation');
+
+    chatHistory.remove(conversationId);
+    branchStore.remove(conversationId);
+    conversationMetaStore.remove(conversationId);
+    return null;
+  };
+
+  const handleDeleteSelected = async () => {
+    const ids = selectedVisible.map(chat => chat.conversation_id);
+    setIsDeleting(true);
+    setDeleteError(null);
+
+    const errors = await Promise.all(ids.map(deleteConversation));
+    const failed = ids.filter((_, index) => errors[index]);
+    console.log(`🗑️ [ChatHistory] Deleted ${ids.length - failed.length} of ${ids.length} conversations`);
+
+    setSelected(new Set(failed));
+    setDeleteError(errors.find(Boolean) ?? null);
+    setIsConfirmingDelete(false);
+    setIsDeleting(false);
+  };
+
+  const handleToggleArchived = async (chat: Conversation) => {
+    setDeleteError(null);
+    try {
+      await setArchived(chat.conversation_id, !chat.archived);
+    } catch (error) {
+      setDeleteError(toServiceError(error, 'Failed to archive conversation'));
+    }
+  };
+
+  const renderRow = (chat: Conversation) => {
+    const isSelected = selected.has(chat.conversation_id);
+    const isFork = Boolean(chat.parent_conversation_id || getBranch(chat.conversation_id));
+
+    return (
+      <div
+        className={`flex items-start gap-3 px-4 py-3 border-b border-secondary-100 cursor-pointer transition-colors ${
+          isSelected ? 'bg-primary-50' : 'hover:bg-secondary-50'
+        }`}
+        onClick={() => router.push(`/chat/${chat.conversation_id}`)}
+      >
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => toggleSelected(chat.conversation_id)}
+          onClick={event => event.stopPropagation()}
+          className="mt-1 accent-primary-600"
+          aria-label={`Select ${chat.title || 'Untitled'}`}
+        />
+        <div className="flex-1 min-w-0">
+          <p className="flex items-center gap-1 text-sm font-medium text-secondary-900">
+            {chat.pinned && <Pin className="w-3.5 h-3.5 flex-shrink-0 text-primary-500" aria-label="Pinned chat" />}
+            {isFork && <GitBranch className="w-3.5 h-3.5 flex-shrink-0 text-primary-500" aria-label="Forked chat" />}
+            <span className="truncate">{chat.title || chat.topic || 'Untitled'}</span>
+            {chat.archived && (
+              <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-secondary-100 text-[10px] font-normal text-secondary-600">Archived</span>
+            )}
+          </p>
+          {chat.topic && chat.topic !== chat.title && (
+            <p className="text-xs text-secondary-500 truncate mt-0.5">{chat.topic}</p>
+          )}
+          <p className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-secondary-500 mt-1">
+            <span>{chat.model || '—'}</span>
+            <span className="px-1.5 py-0.5 rounded bg-secondary-100 text-secondary-600">{chat.session_type}</span>
+            <span>{chat.message_count} message{chat.message_count === 1 ? '' : 's'}</span>
+            <span>{chat.total_tokens.toLocaleString()} tokens</span>
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <span className="text-xs text-secondary-400 whitespace-nowrap">{formatUpdatedAt(chat.updated_at)}</span>
+          <button
+            type="button"
+            onClick={event => {
+              event.stopPropagation();
+              handleToggleArchived(chat);
+            }}
+            className="p-1 rounded text-secondary-400 hover:text-secondary-700 hover:bg-secondary-100"
+            aria-label={chat.archived ? 'Restore conversation' : 'Archive conversation'}
+            title={chat.archived ? 'Restore' : 'Archive'}
+          >
+            {chat.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Chat history</h1>
+          <p className="text-sm text-secondary-500 mt-1">
+            {isFiltering(filters)
+              ? `${visible.length} matching of ${conversations.length} loaded`
+              : `${conversations.length} of ${Math.max(chatHistory.total, conversations.length)} conversations loaded`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => chatHistory.refresh()}
+          disabled={chatHistory.loading}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg border border-secondary-300 text-sm text-secondary-700 hover:bg-secondary-100 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${chatHistory.loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Search and filters */}
+      <div className="bg-white rounded-lg shadow p-4 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary-400" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={event => updateFilter('query', event.target.value)}
+            placeholder="Search by title, topic or model"
+            className="w-full pl-9 pr-3 py-2 border border-secondary-300 rounded-lg text-sm focus:outline-none focus:border-primary-400"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={filters.model} onChange={event => updateFilter('model', event.target.value)} className={selectClasses} aria-label="Model">
+            <option value="">All models</option>
+            {models.map(model => <option key={model} value={model}>{model}</option>)}
+          </select>
+          <select
+            value={filters.sessionType}
+            onChange={event => updateFilter('sessionType', event.target.value)}
+            className={selectClasses}
+            aria-label="Session type"
+          >
+            <option value="">All session types</option>
+            {sessionTypes.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <select
+            value={filters.dateRange}
+            onChange={event => updateFilter('dateRange', event.target.value as ConversationDateRange)}
+            className={selectClasses}
+            aria-label="Last updated"
+          >
+            {DATE_RANGES.map(range => <option key={range.value} value={range.value}>{range.label}</option>)}
+          </select>
+          <select
+            value={filters.status}
+            onChange={event => updateFilter('status', event.target.value as ConversationStatus)}
+            className={selectClasses}
+            aria-label="Archived"
+          >
+            {STATUSES.map(status => <option key={status.value} value={status.value}>{status.label}</option>)}
+          </select>
+          <select
+            value={filters.sort}
+            onChange={event => updateFilter('sort', event.target.value as ConversationSort)}
+            className={selectClasses}
+            aria-label="Sort by"
+          >
+            {SORTS.map(sort => <option key={sort.value} value={sort.value}>{sort.label}</option>)}
+          </select>
+          {isFiltering(filters) && (
+            <button
+              type="button"
+              onClick={() => setFilters({ ...DEFAULT_CONVERSATION_FILTERS, sort: filters.sort })}
+              className="text-sm text-primary-600 hover:text-primary-700"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {deleteError && (
+        <ErrorNotice error={deleteError} onRetry={handleDeleteSelected} onDismiss={() => setDeleteError(null)} />
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {/* Bulk selection */}
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-secondary-200 bg-secondary-50 text-sm">
+          <input
+            type="checkbox"
+            checked={allVisibleSelected}
+            onChange={toggleAllVisible}
+            disabled={visible.length === 0}
+            className="accent-primary-600"
+            aria-label="Select all shown conversations"
+          />
+          <span className="flex-1 text-secondary-600">
+            {selectedVisible.length > 0 ? `${selectedVisible.length} selected` : 'Select all'}
+          </span>
+          {isConfirmingDelete ? (
+            <>
+              <span className="text-red-700">
+                Delete {selectedVisible.length} conversation{selectedVisible.length === 1 ? '' : 's'}?
+              </span>
+              <button
+                type="button"
+                onClick={handleDeleteSelected}
+                disabled={isDeleting}
+                className="px-3 py-1 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {isDeleting ? 'Deleting…' : 'Delete'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsConfirmingDelete(false)}
+                disabled={isDeleting}
+                className="px-3 py-1 rounded-lg border border-secondary-300 text-secondary-700 hover:bg-secondary-100"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setIsConfirmingDelete(true)}
+              disabled={selectedVisible.length === 0}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          )}
+        </div>
+
+        <InfiniteScrollList
+          items={visible}
+          getKey={chat => chat.conversation_id}
+          renderItem={renderRow}
+          hasMore={chatHistory.hasMore}
+          isLoading={chatHistory.loading}
+          onLoadMore={chatHistory.loadMore}
+          error={chatHistory.error ? 'Could not load conversations' : null}
+          className="max-h-[calc(100vh-22rem)] min-h-[12rem]"
+          emptyState={
+            <div className="px-4 py-12 text-center text-sm text-secondary-500">
+              {isFiltering(filters) ? 'No conversations match these filters' : 'No conversations yet'}
+            </div>
+          }
+        />
+      </div>
+    </div>
+  );
+}
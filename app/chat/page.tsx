@@ -2,38 +2,27 @@
 
 import { useEffect, useState, useRef, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { DeviceManager } from '@/lib/utils/deviceManager';
-import { sessionManager } from '@/lib/utils/sessionManager';
-import { config } from '@/lib/config';
-import { createWebSocketStreamRequest } from '@/lib/services/apiService';
-import { WebSocketStreamingService } from '@/lib/services/websocketStreamingService';
-import { startChatConversation } from '@/lib/services/apiService';
-import ReactMarkdown from 'react-markdown';
+import { useChatStream, usageFromStart } from '@/hooks/useChatStream';
+import { useStreamingConnection } from '@/hooks/useStreamingConnection';
+import MessageRenderer from '@/components/ui/MessageRenderer';
+import MessageUsageFooter from '@/components/ui/MessageUsageFooter';
+import ErrorNotice from '@/components/ui/ErrorNotice';
+import { toServiceError, type ServiceError } from '@/lib/services/serviceErrors';
 import { Send, Loader } from 'lucide-react';
-import { coinsStore } from '@/lib/stores/coinsStore';
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  isStreaming?: boolean;
-}
 
 function ChatContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const conversationId = searchParams.get('conversation_id');
   
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const wsServiceRef = useRef<WebSocketStreamingService | null>(null);
+  const { messages, addMessage, streamReply, startConversation } = useChatStream(conversationId);
+  const { isConnected } = useStreamingConnection();
   const isConnectingRef = useRef(false);
   
   // Chatbox state
   const [inputValue, setInputValue] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ServiceError | null>(null);
 
   useEffect(() => {
     if (!conversationId) {
@@ -51,120 +40,35 @@ function ChatContent() {
 
     // Get pending message from home page
     const pendingMessage = sessionStorage.getItem('pending_message');
-    const conversationData = sessionStorage.getItem('pending_conversation_data');
+    const pendingData = sessionStorage.getItem('pending_conversation_data');
+    const startData = pendingData ? JSON.parse(pendingData) : null;
     
     if (pendingMessage) {
       // Add user message to UI
-      setMessages([{
-        id: Date.now().toString(),
+      addMessage({
+        id: `user-${Date.now()}`,
         role: 'user',
-        content: pendingMessage
-      }]);
+        content: pendingMessage,
+        timestamp: new Date().toISOString(),
+        status: 'complete',
+      });
       
       // Clean up
       sessionStorage.removeItem('pending_message');
       sessionStorage.removeItem('pending_conversation_data');
     }
 
-    // Initialize WebSocket service
-    const wsService = new WebSocketStreamingService(config.api.websocketUrl);
-    wsServiceRef.current = wsService;
-
-    // Set up callbacks
-    wsService.setCallbacks({
-      onStreamStart: (event) => {
-        console.log('🎬 Stream started:', event);
-        
-        // Create empty message for streaming
-        const messageId = Date.now().toString();
-        setStreamingMessageId(messageId);
-        setMessages(prev => [...prev, {
-          id: messageId,
-          role: 'assistant',
-          content: '',
-          isStreaming: true
-        }]);
-        setIsConnected(true);
-        // Don't disconnect! Wait for chunks
-      },
-
-      onConnectionOpen: () => {
-        console.log('✅ WebSocket connection opened');
-        setIsConnected(true);
-      },
-      
-      onContentChunk: (event) => {
-        console.log('📦 Chunk received:', event.content);
-        
-        // Append chunk to streaming message - use functional update to get latest state
-        setMessages(prev => prev.map((msg, idx) => {
-          // The streaming message is the last assistant message
-          if (msg.role === 'assistant' && msg.isStreaming === true) {
-            return { ...msg, content: msg.content + event.content };
-          }
-          return msg;
-        }));
-      },
-      
-      onStreamComplete: (event) => {
-        console.log('✅ Stream complete:', event);
-        
-        // Mark complete - find the streaming assistant message
-        setMessages(prev => prev.map(msg => {
-          if (msg.role === 'assistant' && msg.isStreaming === true) {
-            return { ...msg, content: event.full_response, isStreaming: false };
-          }
-          return msg;
-        }));
-        setStreamingMessageId(null);
-        
-        // ✅ NOW close WebSocket after stream is complete
-        console.log('🔌 Closing WebSocket after stream complete');
-        setTimeout(() => {
-          if (wsServiceRef.current) {
-            wsServiceRef.current.disconnect();
-          }
-        }, 1000);
-      },
-      
-      onStreamError: (error) => {
-        console.error('❌ Stream error:', error);
-      }
+    // Stream the reply over the shared connection
+    streamReply(pendingMessage || '', {
+      usage: startData ? usageFromStart(startData) : undefined,
+      startedAt: startData?.started_at,
     });
+    console.log('📡 Streaming request sent for conversation:', conversationId);
 
-    // Connect and start streaming
-    const connectAndStream = async () => {
-      try {
-        await wsService.connect();
-        console.log('✅ WebSocket connected');
-
-        // Create stream request
-        const request = createWebSocketStreamRequest(
-          conversationId,
-          pendingMessage || '',
-          DeviceManager.getSessionId() || '',
-          DeviceManager.getDeviceId() || '',
-          'anonymous'
-        );
-
-        // Send streaming request
-        wsService.sendMessage(request);
-        console.log('📡 Streaming request sent for conversation:', conversationId);
-        
-      } catch (error) {
-        console.error('❌ Failed to connect WebSocket:', error);
-      }
-    };
-
-    connectAndStream();
-
-    // Cleanup on unmount
     return () => {
-      console.log('🧹 Cleanup: Disconnecting WebSocket');
-      wsService.disconnect();
       isConnectingRef.current = false;
     };
-  }, [conversationId]);
+  }, [conversationId, addMessage, streamReply]);
 
   return (
     <div className="flex flex-col" style={{ height: '100vh' }}>
@@ -194,12 +98,19 @@ function ChatContent() {
                   ? 'bg-secondary-100' 
                   : 'bg-primary-50 border border-primary-200'
               }`}>
-                <div className="text-secondary-900">
-                  <ReactMarkdown>{msg.content}</ReactMarkdown>
-                </div>
-                {msg.isStreaming && (
+                {msg.role === 'assistant' ? (
+                  <MessageRenderer
+                    content={msg.content}
+                    citations={msg.citations}
+                    isStreaming={msg.status === 'streaming'}
+                  />
+                ) : (
+                  <p className="text-secondary-900 whitespace-pre-line">{msg.content}</p>
+                )}
+                {(msg.status === 'pending' || msg.status === 'streaming') && (
                   <span className="inline-block w-2 h-4 bg-primary-600 animate-pulse ml-1">▋</span>
                 )}
+                {msg.usage && msg.status === 'complete' && <MessageUsageFooter usage={msg.usage} />}
               </div>
             </div>
           ))}
@@ -215,6 +126,7 @@ function ChatContent() {
       {/* Chatbox - Fixed at bottom */}
       <div className="fixed bottom-0 left-0 right-0 border-t border-secondary-200 bg-white p-4 shadow-lg z-10">
         <div className="max-w-4xl mx-auto">
+          {error && <ErrorNotice error={error} onDismiss={() => setError(null)} className="mb-3" />}
           <form
             onSubmit={async (e) => {
               e.preventDefault();
@@ -222,41 +134,40 @@ function ChatContent() {
 
               try {
                 setIsSubmitting(true);
-                const deviceId = DeviceManager.getDeviceId() ?? '';
-                const session = await sessionManager.getSession();
-                const sessionId = session?.session_id ?? '';
-
-                // Start new conversation
-                const result = await startChatConversation({
-                  message: inputValue,
-                  session_id: sessionId,
-                  device_id: deviceId,
-                  request_type: 'anonymous',
-                  interaction_mode: 'type',
-                });
-
-                // Update coins
-                coinsStore.updateFromChatResponse(result.vedika_coins_remaining);
+                setError(null);
+                const submittedAt = Date.now();
+                // Start new conversation (also updates coins)
+                const result = await startConversation(inputValue, { interactionMode: 'type' });
 
                 // Add user message to UI
-                setMessages(prev => [...prev, {
-                  id: Date.now().toString(),
+                addMessage({
+                  id: `user-${Date.now()}`,
                   role: 'user',
-                  content: inputValue
-                }]);
+                  content: inputValue,
+                  timestamp: new Date().toISOString(),
+                  status: 'complete',
+                });
 
                 // Store data for streaming
                 sessionStorage.setItem('pending_message', inputValue);
                 sessionStorage.setItem('current_conversation_id', result.conversation_id);
+                sessionStorage.setItem('pending_conversation_data', JSON.stringify({
+                  model: result.model,
+                  model_name: result.model_name,
+                  transaction_id: result.transaction_id,
+                  routing: result.routing,
+                  vedika_coins_used: result.vedika_coins_used,
+                  started_at: submittedAt,
+                }));
 
                 // Navigate to chat page with new conversation_id
                 router.push(`/chat/${result.conversation_id}`);
 
                 // Clear input
                 setInputValue('');
-              } catch (error: any) {
+              } catch (error) {
                 console.error('Failed to start conversation:', error);
-                setError(error.message || 'Failed to send message');
+                setError(toServiceError(error, 'Failed to send message'));
               } finally {
                 setIsSubmitting(false);
               }
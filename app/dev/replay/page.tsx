@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { notFound } from 'next/navigation';
+import MessageRenderer from '@/components/ui/MessageRenderer';
+import ErrorNotice from '@/components/ui/ErrorNotice';
+import { useChatStream, createMessageId } from '@/hooks/useChatStream';
+import { StreamReplay } from '@/lib/services/streamReplay';
+import { parseStreamTrace, type StreamTrace } from '@/lib/services/streamRecorder';
+
+// Development-only: plays a trace downloaded from a chat (NEXT_PUBLIC_STREAM_RECORDING=true)
+// back through WebSocketStreamingService and useChatStream, so a bad stream can be watched again.
+
+const SPEEDS = [1, 2, 5, 10];
+
+interface ReplayRun {
+  id: number;
+  trace: StreamTrace;
+  speed: number;
+}
+
+function describeTrace(trace: StreamTrace) {
+  const events = trace.entries.filter(entry => entry.kind === 'event').length;
+  const drops = trace.entries.filter(entry => entry.kind === 'connection' && entry.state === 'close').length;
+  const durationMs = trace.entries.length > 0 ? trace.entries[trace.entries.length - 1].at : 0;
+  return { events, drops, durationMs };
+}
+
+function ReplayThread({ trace, speed, onFinished }: { trace: StreamTrace; speed: number; onFinished: () => void }) {
+  const [replay, setReplay] = useState<StreamReplay | null>(null);
+  const startedRef = useRef<StreamReplay | null>(null);
+  const { messages, isStreaming, isReconnecting, error, loadMessages, streamReply, cancel } =
+    useChatStream(trace.conversation_id, replay?.connection);
+
+  useEffect(() => {
+    const instance = new StreamReplay(trace, speed, onFinished);
+    setReplay(instance);
+    return () => instance.dispose();
+  }, [trace, speed, onFinished]);
+
+  // Send the recorded question; the replay starts its timeline when the stream_chat arrives
+  useEffect(() => {
+    if (!replay || startedRef.current === replay) return;
+    startedRef.current = replay;
+    loadMessages([{
+      id: createMessageId('user'),
+      role: 'user',
+      content: replay.question,
+      timestamp: new Date().toISOString(),
+      status: 'complete',
+    }]);
+    streamReply(replay.question, { streamConversationId: trace.conversation_id });
+  }, [replay, trace.conversation_id, loadMessages, streamReply]);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-secondary-600">
+          {isReconnecting ? 'Reconnecting…' : isStreaming ? 'Streaming…' : 'Idle'}
+        </span>
+        <button
+          onClick={cancel}
+          disabled={!isStreaming}
+          className="px-3 py-1 rounded-lg border border-secondary-300 text-secondary-700 hover:bg-secondary-100 disabled:opacity-50"
+        >
+          Stop
+        </button>
+      </div>
+      {messages.map(message => (
+        <div
+          key={message.id}
+          className={`rounded-lg p-3 ${message.role === 'user' ? 'bg-secondary-100' : 'bg-primary-50 border border-primary-200'}`}
+        >
+          {message.role === 'assistant' ? (
+            <>
+              <MessageRenderer content={message.content} isStreaming={message.status === 'streaming'} />
+              <p className="text-xs text-secondary-500 mt-2">
+                Status: {message.status}
+                {message.truncated && ' (truncated)'}
+                {message.integrity && ` · ${message.integrity.received_chunks} chunks received, integrity mismatch`}
+              </p>
+            </>
+          ) : (
+            <p className="text-secondary-900 whitespace-pre-wrap">{message.content}</p>
+          )}
+        </div>
+      ))}
+      {error && <ErrorNotice error={error} />}
+    </div>
+  );
+}
+
+function StreamReplayPage() {
+  const [input, setInput] = useState('');
+  const [trace, setTrace] = useState<StreamTrace | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const [run, setRun] = useState<ReplayRun | null>(null);
+  const [isFinished, setIsFinished] = useState(false);
+  const runCountRef = useRef(0);
+
+  const loadTrace = (json: string) => {
+    setInput(json);
+    setRun(null);
+    try {
+      setTrace(parseStreamTrace(json));
+      setParseError(null);
+    } catch (error) {
+      setTrace(null);
+      setParseError(error instanceof Error ? error.message : 'Could not read the trace');
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) loadTrace(await file.text());
+  };
+
+  const startReplay = () => {
+    if (!trace) return;
+    runCountRef.current++;
+    setIsFinished(false);
+    setRun({ id: runCountRef.current, trace, speed });
+  };
+
+  const handleFinished = useCallback(() => setIsFinished(true), []);
+
+  const summary = trace ? describeTrace(trace) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Stream replay</h1>
+          <p className="text-sm text-secondary-600 mt-1">
+            Load a trace downloaded with the Trace button of a chat reply (recorded with NEXT_PUBLIC_STREAM_RECORDING=true).
+            It is played back through the same streaming service and useChatStream callbacks as the chat page.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="text-sm" />
+          <textarea
+            value={input}
+            onChange={event => loadTrace(event.target.value)}
+            placeholder="…or paste the trace JSON here"
+            rows={6}
+            className="w-full font-mono text-xs border border-secondary-300 rounded-lg p-2"
+          />
+          {parseError && input && <p className="text-sm text-red-600">{parseError}</p>}
+          {trace && summary && (
+            <p className="text-sm text-secondary-600">
+              Conversation {trace.conversation_id} · {summary.events} events · {summary.drops} connection drops ·{' '}
+              {(summary.durationMs / 1000).toFixed(1)}s recorded {trace.started_at}
+            </p>
+          )}
+          <div className="flex items-center gap-3">
+            <select
+              value={speed}
+              onChange={event => setSpeed(Number(event.target.value))}
+              className="border border-secondary-300 rounded-lg px-2 py-2 text-sm"
+            >
+              {SPEEDS.map(option => (
+                <option key={option} value={option}>{option}×</option>
+              ))}
+            </select>
+            <button
+              onClick={startReplay}
+              disabled={!trace}
+              className="px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+            >
+              {run ? 'Replay again' : 'Replay'}
+            </button>
+            {run && isFinished && <span className="text-sm text-secondary-500">Replay finished</span>}
+          </div>
+        </div>
+
+        {run && (
+          <ReplayThread key={run.id} trace={run.trace} speed={run.speed} onFinished={handleFinished} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ReplayPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+  return <StreamReplayPage />;
+}
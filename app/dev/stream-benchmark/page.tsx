@@ -0,0 +1,306 @@
+'use client';
+
+import React, { Profiler, useRef, useState } from 'react';
+import { notFound } from 'next/navigation';
+import MessageRenderer from '@/components/ui/MessageRenderer';
+import { ChunkAssembler } from '@/lib/utils/chunkAssembler';
+import { FrameBatcher } from '@/lib/utils/frameBatcher';
+import type { Message } from '@/lib/types/api';
+
+// Development-only benchmark: replays a synthetic 5k-chunk answer through the old per-chunk
+// state update and through the frame-batched path useChatStream uses now, and reports the cost.
+
+type Mode = 'per-chunk' | 'frame-batched';
+
+interface BenchmarkResult {
+  mode: Mode;
+  chunks: number;
+  totalMs: number; // First chunk to final text on screen
+  commits: number; // React commits of the thread
+  renderMs: number; // Time React spent rendering the thread
+  frames: number;
+  longFrames: number; // Frames that took over 50ms
+  maxFrameMs: number;
+}
+
+interface ThreadState {
+  order: string[];
+  byId: Record<string, Message>;
+}
+
+const CHUNK_COUNT = 5000;
+const HISTORY_SIZE = 20;
+const ASSISTANT_ID = 'benchmark-assistant';
+
+const MODE_LABELS: Record<Mode, string> = {
+  'per-chunk': 'Before: setState per chunk',
+  'frame-batched': 'After: one update per frame',
+};
+
+// Recorded run of "Run both" (details in PERFORMANCE_OPTIMIZATION.md): development build under jsdom on
+// Node 20, one CPU core, no layout or paint. Compare against a fresh run on the same machine, not across machines.
+const RECORDED_RESULTS: BenchmarkResult[] = [
+  { mode: 'per-chunk', chunks: 5000, totalMs: 173500, commits: 4998, renderMs: 155259, frames: 4493, longFrames: 1037, maxFrameMs: 322 },
+  { mode: 'frame-batched', chunks: 5000, totalMs: 133755, commits: 3551, renderMs: 120298, frames: 3552, longFrames: 508, maxFrameMs: 255 },
+];
+
+const WORDS = ['Vedika', 'streams', 'answers', 'in', 'small', 'pieces', 'so', 'the', 'reader', 'sees', 'progress', 'early.'];
+
+function createSyntheticChunks(count: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < count; i++) {
+    if (i % 500 === 250) {
+      chunks.push('\n\n```ts\nconst answer = await vedika.ask(question);\n```\n\n');
+    } else if (i % 120 === 119) {
+      chunks.push('\n\n');
+    } else {
+      chunks.push(`${WORDS[i % WORDS.length]} `);
+    }
+  }
+  return chunks;
+}
+
+function createThread(): Message[] {
+  const history: Message[] = Array.from({ length: HISTORY_SIZE }, (_, i) => ({
+    id: `benchmark-${i}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: i % 2 === 0 ? `Question ${i / 2 + 1}?` : `An **earlier** answer with a [link](https://vedika.ai) and a list:\n\n- one\n- two`,
+    timestamp: new Date().toISOString(),
+    status: 'complete',
+  }));
+  return [
+    ...history,
+    { id: ASSISTANT_ID, role: 'assistant', content: '', timestamp: new Date().toISOString(), status: 'streaming' },
+  ];
+}
+
+/**
+ * Deliver each chunk in its own task, back to back, like WebSocket messages on a fast connection
+ */
+function deliverChunks(chunks: string[], onChunk: (content: string, chunkId: number) => void): Promise<void> {
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    let next = 0;
+    channel.port1.onmessage = () => {
+      onChunk(chunks[next], next);
+      next++;
+      if (next < chunks.length) {
+        channel.port2.postMessage(null);
+      } else {
+        channel.port1.close();
+        resolve();
+      }
+    };
+    channel.port2.postMessage(null);
+  });
+}
+
+// Resolves after the next frame has been painted
+function nextFrame(): Promise<void> {
+  return new Promise(resolve => requestAnimationFrame(() => setTimeout(resolve, 0)));
+}
+
+function monitorFrames() {
+  let last = performance.now();
+  let frame = 0;
+  const stats = { frames: 0, longFrames: 0, maxFrameMs: 0 };
+
+  const tick = (now: number) => {
+    const gap = now - last;
+    last = now;
+    stats.frames++;
+    stats.maxFrameMs = Math.max(stats.maxFrameMs, gap);
+    if (gap > 50) stats.longFrames++;
+    frame = requestAnimationFrame(tick);
+  };
+  frame = requestAnimationFrame(tick);
+
+  return () => {
+    cancelAnimationFrame(frame);
+    return stats;
+  };
+}
+
+function MessageBubble({ message }: { message: Message }) {
+  return (
+    <div className={`rounded-lg p-3 ${message.role === 'user' ? 'bg-secondary-100' : 'bg-primary-50 border border-primary-200'}`}>
+      {message.role === 'assistant' ? (
+        <MessageRenderer content={message.content} isStreaming={message.status === 'streaming'} />
+      ) : (
+        <p className="text-secondary-900">{message.content}</p>
+      )}
+    </div>
+  );
+}
+
+function ResultsTable({ results }: { results: BenchmarkResult[] }) {
+  return (
+    <table className="w-full text-sm bg-white rounded-lg shadow overflow-hidden">
+      <thead className="bg-secondary-100 text-secondary-700 text-left">
+        <tr>
+          <th className="p-2">Mode</th>
+          <th className="p-2">Total</th>
+          <th className="p-2">Commits</th>
+          <th className="p-2">React render time</th>
+          <th className="p-2">Frames</th>
+          <th className="p-2">Frames &gt; 50ms</th>
+          <th className="p-2">Longest frame</th>
+        </tr>
+      </thead>
+      <tbody>
+        {results.map(result => (
+          <tr key={result.mode} className="border-t border-secondary-100">
+            <td className="p-2 font-medium">{MODE_LABELS[result.mode]}</td>
+            <td className="p-2">{Math.round(result.totalMs)} ms</td>
+            <td className="p-2">{result.commits}</td>
+            <td className="p-2">{Math.round(result.renderMs)} ms</td>
+            <td className="p-2">{result.frames}</td>
+            <td className="p-2">{result.longFrames}</td>
+            <td className="p-2">{Math.round(result.maxFrameMs)} ms</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function StreamBenchmark() {
+  const [mode, setMode] = useState<Mode>('frame-batched');
+  const [legacyMessages, setLegacyMessages] = useState<Message[]>([]);
+  const [thread, setThread] = useState<ThreadState>({ order: [], byId: {} });
+  const [running, setRunning] = useState<Mode | null>(null);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const renderStatsRef = useRef({ commits: 0, renderMs: 0 });
+
+  const handleRender: React.ProfilerOnRenderCallback = (_id, _phase, actualDuration) => {
+    renderStatsRef.current.commits++;
+    renderStatsRef.current.renderMs += actualDuration;
+  };
+
+  const run = async (runMode: Mode) => {
+    const chunks = createSyntheticChunks(CHUNK_COUNT);
+    const messages = createThread();
+    console.log('🏁 [StreamBenchmark] Starting:', runMode, chunks.length, 'chunks');
+
+    setRunning(runMode);
+    setMode(runMode);
+    if (runMode === 'per-chunk') {
+      setLegacyMessages([...messages].reverse()); // Newest first, as the old page stored them
+    } else {
+      setThread({
+        order: messages.map(message => message.id!),
+        byId: Object.fromEntries(messages.map(message => [message.id!, message])),
+      });
+    }
+    await nextFrame();
+
+    renderStatsRef.current = { commits: 0, renderMs: 0 };
+    const stopMonitor = monitorFrames();
+    const startedAt = performance.now();
+
+    if (runMode === 'per-chunk') {
+      // How chunks used to be applied: map the whole list on every chunk
+      await deliverChunks(chunks, content => {
+        setLegacyMessages(prev =>
+          prev.map(message => (message.id === ASSISTANT_ID ? { ...message, content: message.content + content } : message))
+        );
+      });
+    } else {
+      const assembler = new ChunkAssembler();
+      const batcher = new FrameBatcher(() => {
+        setThread(prev => ({
+          ...prev,
+          byId: { ...prev.byId, [ASSISTANT_ID]: { ...prev.byId[ASSISTANT_ID], content: assembler.getText() } },
+        }));
+      });
+      await deliverChunks(chunks, (content, chunkId) => {
+        assembler.add(chunkId, content);
+        batcher.schedule();
+      });
+      batcher.flush();
+    }
+    await nextFrame();
+
+    const result: BenchmarkResult = {
+      mode: runMode,
+      chunks: chunks.length,
+      totalMs: performance.now() - startedAt,
+      ...renderStatsRef.current,
+      ...stopMonitor(),
+    };
+    console.log('📊 [StreamBenchmark] Result:', result);
+    setResults(prev => [...prev.filter(existing => existing.mode !== runMode), result]);
+    setRunning(null);
+  };
+
+  const runBoth = async () => {
+    await run('per-chunk');
+    await run('frame-batched');
+  };
+
+  // The old page kept messages newest-first and reversed them on every render
+  const visibleMessages = mode === 'per-chunk'
+    ? [...legacyMessages].reverse()
+    : thread.order.map(id => thread.byId[id]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Streaming render benchmark</h1>
+          <p className="text-sm text-secondary-600 mt-1">
+            Streams a synthetic {CHUNK_COUNT.toLocaleString()}-chunk answer below {HISTORY_SIZE} earlier messages.
+            Run it with CPU throttling (DevTools → Performance → 4× slowdown) to approximate a mid-range phone.
+          </p>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={runBoth}
+            disabled={running !== null}
+            className="px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+          >
+            Run both
+          </button>
+          {(Object.keys(MODE_LABELS) as Mode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => run(option)}
+              disabled={running !== null}
+              className="px-4 py-2 rounded-lg border border-secondary-300 text-sm text-secondary-700 hover:bg-secondary-100 disabled:opacity-50"
+            >
+              {MODE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {results.length > 0 && <ResultsTable results={results} />}
+
+        <div className="space-y-2">
+          <h2 className="text-sm font-semibold text-secondary-700">Recorded run</h2>
+          <p className="text-xs text-secondary-500">
+            Development build under jsdom (Node 20, one CPU core, no layout or paint) - see PERFORMANCE_OPTIMIZATION.md.
+          </p>
+          <ResultsTable results={RECORDED_RESULTS} />
+        </div>
+
+        {running && <p className="text-sm text-secondary-500">Running {MODE_LABELS[running]}…</p>}
+
+        <Profiler id="benchmark-thread" onRender={handleRender}>
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            {visibleMessages.map(message => (
+              <MessageBubble key={message.id} message={message} />
+            ))}
+          </div>
+        </Profiler>
+      </div>
+    </div>
+  );
+}
+
+export default function StreamBenchmarkPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+  return <StreamBenchmark />;
+}
@@ -3,20 +3,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useRouter } from 'next/navigation';
-import { useChat } from '@ai-sdk/react';
 import { appInitializer } from '@/lib/utils/appInitializer';
-import { sessionManager } from '@/lib/utils/sessionManager';
 import { DeviceManager } from '@/lib/utils/deviceManager';
-import { coinsStore } from '@/lib/stores/coinsStore';
-import { config } from '@/lib/config';
 import { InteractionService } from '@/lib/services/interactionService';
 import { VoiceService } from '@/lib/services/voiceService';
 import { useDeepgramDictation } from '@/lib/services/deepgramDictationService';
 import VoiceModePopup from '@/components/ui/VoiceModePopup';
+import ErrorNotice from '@/components/ui/ErrorNotice';
 import { Search, FileText, Sparkles, Send, Type, Mic, MessageCircle, Loader, Globe, Paperclip, Bot, ChevronDown, ChevronUp } from 'lucide-react';
 import { routingApi, type Model } from '@/lib/services/routingApi';
-import { WebSocketStreamingService } from '@/lib/services/websocketStreamingService';
-import { startChatConversation } from '@/lib/services/apiService';
+import { toServiceError, type ServiceError } from '@/lib/services/serviceErrors';
+import { useStreamingConnection } from '@/hooks/useStreamingConnection';
+import { useChatStream } from '@/hooks/useChatStream';
 
 export default function Home() {
   const router = useRouter();
@@ -26,7 +24,7 @@ export default function Home() {
   const [sessionReady, setSessionReady] = useState(false);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ServiceError | string | null>(null);
   
   // Model selection state
   const [selectedModel, setSelectedModel] = useState('best');
@@ -47,8 +45,9 @@ export default function Home() {
   const [interactionService] = useState(() => new InteractionService());
   const [voiceService] = useState(() => new VoiceService());
   
-  // WebSocket streaming service
-  const [wsService] = useState(() => new WebSocketStreamingService(config.api.websocketUrl));
+  // Shared streaming connection - stays open when we navigate to the chat page
+  const { ensureConnected } = useStreamingConnection();
+  const { startConversation } = useChatStream(null);
   
   // ✅ Use Deepgram dictation hook
   const {
@@ -59,20 +58,18 @@ export default function Home() {
     isSupported: hasRecognitionSupport,
   } = useDeepgramDictation();
 
-  // Remove useChat hook since we're not using it anymore
-
   // Initialize device session on mount
   useEffect(() => {
     initializeSession();
   }, []);
 
-  // Connect to WebSocket when session is ready
+  // Make sure the shared WebSocket is warm before the first message is sent
   useEffect(() => {
     if (!sessionReady) return;
 
     const connectWebSocket = async () => {
       try {
-        await wsService.connect();
+        await ensureConnected();
         console.log('✅ WebSocket connected on homepage');
       } catch (error) {
         console.error('❌ Failed to connect WebSocket on homepage:', error);
@@ -80,12 +77,7 @@ export default function Home() {
     };
 
     connectWebSocket();
-
-    // Cleanup on unmount
-    return () => {
-      wsService.disconnect();
-    };
-  }, [sessionReady, wsService]);
+  }, [sessionReady, ensureConnected]);
 
   // Load available models from API
   useEffect(() => {
@@ -330,17 +322,11 @@ export default function Home() {
               console.log('🔍 Device ID:', DeviceManager.getDeviceId());
               console.log('🔍 Session ID:', DeviceManager.getSessionId());
               
-              // 🚀 STEP 1: Call /ai/chat/start to get conversation_id immediately
-              const sessionId = sessionManager.getCachedSession()?.session_id || DeviceManager.getSessionId();
-              const deviceId = DeviceManager.getDeviceId();
-              
-              const result = await startChatConversation({
-                message: inputValue,
-                session_id: sessionId ?? '',
-                device_id: deviceId ?? undefined,
-                model_id: selectedModel || 'best',
-                request_type: 'anonymous',
-                interaction_mode: interactionMode as 'type' | 'dictation' | 'voice',
+              // 🚀 STEP 1: Call /ai/chat/start to get conversation_id immediately (also updates coins)
+              const submittedAt = Date.now();
+              const result = await startConversation(inputValue, {
+                modelId: selectedModel || 'best',
+                interactionMode: interactionMode as 'type' | 'dictation' | 'voice',
               });
 
               console.log('✅ Conversation created:', result.conversation_id);
@@ -348,9 +334,6 @@ export default function Home() {
               console.log('   Coins remaining:', result.vedika_coins_remaining);
               console.log('   Coins used:', result.vedika_coins_used);
               
-              // Update coins display
-              coinsStore.updateFromChatResponse(result.vedika_coins_remaining);
-              
               // Store conversation info for chat page
               sessionStorage.setItem('current_conversation_id', result.conversation_id);
               sessionStorage.setItem('pending_message', inputValue);
@@ -359,6 +342,8 @@ export default function Home() {
                 model_name: result.model_name,
                 transaction_id: result.transaction_id,
                 routing: result.routing,
+                vedika_coins_used: result.vedika_coins_used,
+                started_at: submittedAt, // Time-to-first-token is measured from here
               }));
               
               // Navigate to chat page with conversation_id
@@ -368,7 +353,7 @@ export default function Home() {
               setInputValue(''); // Clear input after submit
             } catch (error) {
               console.error('❌ Error sending message:', error);
-              setError(`Error sending message: ${error}`);
+              setError(toServiceError(error, 'Failed to send message'));
             } finally {
               setIsLoading(false);
             }
@@ -586,9 +571,11 @@ export default function Home() {
 
           {/* Error Display */}
           {error && (
-            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-sm">
-              <strong>Error:</strong> {error}
-            </div>
+            <ErrorNotice
+              error={error}
+              onDismiss={() => setError(null)}
+              onUseBestModel={() => setSelectedModel('best')}
+            />
           )}
 
           {/* Session Status */}
@@ -5,6 +5,7 @@ import { usePathname } from 'next/navigation';
 import Sidebar from './Sidebar';
 import Header from './Header';
 import Footer from './Footer';
+import StreamingConnectionProvider from '../providers/StreamingConnectionProvider';
 import type { LayoutProps } from '@/types';
 
 export default function MainLayout({ children }: { children: React.ReactNode }) {
@@ -36,18 +37,20 @@ export default function MainLayout({ children }: { children: React.ReactNode })
   }, []);
 
   return (
-    <div className="flex h-screen main-layout w-screen overflow-hidden">
-      {/* Unified Sidebar */}
-      <Sidebar isOpen={isSidebarOpen} onClose={() => setIsSidebarOpen(false)} />
-
-      {/* Main Content Area */}
-      <div className="flex-1 flex flex-col">
-        <Header onMenuClick={handleMenuClick} />
-        <main className={`flex-1 overflow-y-auto overflow-x-hidden custom-scrollbar ${isHomePage ? 'bg-white' : 'bg-secondary-50'}`}>
-          {children}
-        </main>
+    <StreamingConnectionProvider>
+      <div className="flex h-screen main-layout w-screen overflow-hidden">
+        {/* Unified Sidebar */}
+        <Sidebar isOpen={isSidebarOpen} onClose={() => setIsSidebarOpen(false)} />
+
+        {/* Main Content Area */}
+        <div className="flex-1 flex flex-col">
+          <Header onMenuClick={handleMenuClick} />
+          <main className={`flex-1 overflow-y-auto overflow-x-hidden custom-scrollbar ${isHomePage ? 'bg-white' : 'bg-secondary-50'}`}>
+            {children}
+          </main>
+        </div>
       </div>
-    </div>
+    </StreamingConnectionProvider>
   );
 }
 
@@ -1,9 +1,17 @@
 'use client';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { usePathname, useRouter } from 'next/navigation';
 import { apiService } from '@/lib/services/api';
 import type { Conversation } from '@/lib/types/api';
 import type { SidebarProps, User } from '@/types';
+import { Archive, GitBranch, Pencil, Pin, PinOff } from 'lucide-react';
+import { useConversationBranches } from '@/hooks/useConversationBranches';
+import { branchStore, branchToConversation } from '@/lib/stores/branchStore';
+import { useConversationList } from '@/hooks/useConversationList';
+import { useConversationMeta } from '@/hooks/useConversationMeta';
+import { conversationMetaStore } from '@/lib/stores/conversationMetaStore';
+import InfiniteScrollList from '../ui/InfiniteScrollList';
+import EditableTitle from '../ui/EditableTitle';
 import VaiLogo from '../ui/VaiLogo';
 
 
@@ -19,26 +27,27 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
 
   const [showChatHistory, setShowChatHistory] = useState(false);
   const [activeOptionsMenu, setActiveOptionsMenu] = useState<string | null>(null);
-  const [chatHistory, setChatHistory] = useState<Conversation[]>([]);
-  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const { branches, getBranch } = useConversationBranches();
+  // Pages stay cached in the store, so reopening the panel doesn't refetch them
+  const chatHistory = useConversationList({ enabled: showChatHistory || isOpen });
+  const { applyMeta, rename, setPinned, setArchived } = useConversationMeta();
 
-  const loadChatHistory = useCallback(async () => {
-    setLoadingHistory(true);
-    try {
-      const result = await apiService.listConversations(5); // Load latest 5 conversations
-      
-      if (result.success) {
-        setChatHistory(result.data.conversations);
-        console.log('✅ Loaded chat history:', result.data.conversations.length, 'conversations');
-      } else {
-        console.error('Failed to load chat history:', result.error);
-      }
-    } catch (error) {
-      console.error('Error loading chat history:', error);
-    } finally {
-      setLoadingHistory(false);
-    }
-  }, []);
+  // Forks made locally (backend without a fork endpoint) aren't in the API list
+  const conversations = useMemo(() => {
+    const listed = new Set(chatHistory.conversations.map(chat => chat.conversation_id));
+    const localForks = branches
+      .filter(branch => branch.local && !listed.has(branch.conversation_id))
+      .map(branchToConversation);
+
+    // Archived chats only show on the history page; pinned ones go first
+    return [...localForks, ...chatHistory.conversations]
+      .map(applyMeta)
+      .filter(chat => !chat.archived)
+      .sort((a, b) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) || b.updated_at.localeCompare(a.updated_at));
+  }, [chatHistory.conversations, branches, applyMeta]);
+
+  const isFork = (chat: Conversation) => Boolean(chat.parent_conversation_id || getBranch(chat.conversation_id));
 
   // Close options menu when clicking outside
   useEffect(() => {
@@ -55,13 +64,6 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
     };
   }, []);
 
-  // Load chat history when hovering over Chat button
-  useEffect(() => {
-    if (showChatHistory && chatHistory.length === 0 && !loadingHistory) {
-      loadChatHistory();
-    }
-  }, [showChatHistory, chatHistory.length, loadingHistory, loadChatHistory]);
-
   // Format timestamp with relative time display
   function formatTimestamp(timestamp: string): string {
     try {
@@ -124,12 +126,22 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
   };
 
   const handleDeleteChat = async (chatId: string) => {
+    // A local fork only exists in this browser - the backend would answer 404
+    if (getBranch(chatId)?.local) {
+      branchStore.remove(chatId);
+      conversationMetaStore.remove(chatId);
+      setActiveOptionsMenu(null);
+      return;
+    }
+
     try {
       const result = await apiService.deleteConversation(chatId);
       
       if (result.success) {
-        // Remove from local state
-        setChatHistory(prev => prev.filter(chat => chat.conversation_id !== chatId));
+        // Remove from the cached pages
+        chatHistory.remove(chatId);
+        branchStore.remove(chatId);
+        conversationMetaStore.remove(chatId);
         console.log('✅ Chat deleted successfully');
       } else {
         console.error('Failed to delete chat:', result.error);
@@ -141,6 +153,25 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
     }
   };
 
+  const handleTogglePin = async (chat: Conversation) => {
+    setActiveOptionsMenu(null);
+    try {
+      await setPinned(chat.conversation_id, !chat.pinned);
+    } catch (error) {
+      console.error('Error pinning chat:', error);
+    }
+  };
+
+  const handleArchiveChat = async (chatId: string) => {
+    setActiveOptionsMenu(null);
+    try {
+      await setArchived(chatId, true);
+      console.log('🗄️ Chat archived');
+    } catch (error) {
+      console.error('Error archiving chat:', error);
+    }
+  };
+
   return (
     <>
       {/* Mobile Overlay */}
@@ -232,6 +263,7 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
               console.log('🖱️ Mouse left chat button area');
               setShowChatHistory(false);
               setActiveOptionsMenu(null); // Close options menu when leaving submenu
+              setRenamingChatId(null);
             }}
           >
             <button 
@@ -264,82 +296,122 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
                 </div>
 
                 {/* Chat History List */}
-                <div className="py-0 max-h-64 overflow-y-auto">
-                  {loadingHistory ? (
-                    <div className="px-3 py-4 text-center">
-                      <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
-                      <p className="text-[10px] text-secondary-400 mt-2">Loading...</p>
-                    </div>
-                  ) : chatHistory.length === 0 ? (
+                <InfiniteScrollList
+                  items={conversations}
+                  getKey={chat => chat.conversation_id}
+                  hasMore={chatHistory.hasMore}
+                  isLoading={chatHistory.loading}
+                  onLoadMore={chatHistory.loadMore}
+                  error={chatHistory.error ? 'Could not load conversations' : null}
+                  className="py-0 max-h-64"
+                  emptyState={
                     <div className="px-3 py-4 text-center">
                       <p className="text-[10px] text-secondary-400">No conversations yet</p>
                     </div>
-                  ) : (
-                    chatHistory.map((chat) => (
-                      <div
-                        key={chat.conversation_id}
-                        className="relative group/item px-3 py-1.5 hover:bg-gradient-to-r hover:from-primary-50 hover:to-transparent transition-all cursor-pointer border-l-2 border-transparent hover:border-primary-400"
-                        onClick={() => handleChatClick(chat.conversation_id)}
+                  }
+                  renderItem={chat => (
+                    <div
+                      className="relative group/item px-3 py-1.5 hover:bg-gradient-to-r hover:from-primary-50 hover:to-transparent transition-all cursor-pointer border-l-2 border-transparent hover:border-primary-400"
+                      onClick={() => handleChatClick(chat.conversation_id)}
+                    >
+                      <div className="pr-5">
+                        <p className="flex items-center gap-1 text-xs font-medium text-secondary-900 leading-tight">
+                          {chat.pinned && <Pin className="w-3 h-3 flex-shrink-0 text-primary-500" aria-label="Pinned chat" />}
+                          {isFork(chat) && <GitBranch className="w-3 h-3 flex-shrink-0 text-primary-500" aria-label="Forked chat" />}
+                          <EditableTitle
+                            value={chat.title || chat.topic || ''}
+                            onSave={title => rename(chat.conversation_id, title)}
+                            isEditing={renamingChatId === chat.conversation_id}
+                            onEditingChange={editing => setRenamingChatId(editing ? chat.conversation_id : null)}
+                          />
+                        </p>
+                        <p className="text-[10px] text-secondary-400 mt-0.5 leading-none">{formatTimestamp(chat.updated_at)}</p>
+                      </div>
+
+                      {/* Three Dots Menu */}
+                      <button
+                        data-three-dots
+                        className="absolute right-1 top-1.5 p-0.5 rounded hover:bg-white opacity-0 group-hover/item:opacity-100 transition-opacity"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setActiveOptionsMenu(activeOptionsMenu === chat.conversation_id ? null : chat.conversation_id);
+                        }}
+                        aria-label="Chat options"
                       >
-                        <div className="pr-5">
-                          <p className="text-xs font-medium text-secondary-900 truncate leading-tight">{chat.title || chat.topic || 'Untitled'}</p>
-                          <p className="text-[10px] text-secondary-400 mt-0.5 leading-none">{formatTimestamp(chat.updated_at)}</p>
-                        </div>
+                        <svg
+                          className="w-3.5 h-3.5 text-secondary-400 hover:text-secondary-600"
+                          fill="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2z" />
+                        </svg>
+                      </button>
 
-                        {/* Three Dots Menu */}
-                        <button
-                          data-three-dots
-                          className="absolute right-1 top-1.5 p-0.5 rounded hover:bg-white opacity-0 group-hover/item:opacity-100 transition-opacity"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setActiveOptionsMenu(activeOptionsMenu === chat.conversation_id ? null : chat.conversation_id);
-                          }}
-                          aria-label="Chat options"
+                      {/* Options Submenu - Slides out from three dots */}
+                      {activeOptionsMenu === chat.conversation_id && (
+                        <div 
+                          data-options-menu
+                          className="absolute right-0 top-full mt-1 bg-white rounded-md shadow-xl border border-gray-200 py-1 z-30 min-w-[100px]"
+                          onClick={(e) => e.stopPropagation()}
                         >
-                          <svg
-                            className="w-3.5 h-3.5 text-secondary-400 hover:text-secondary-600"
-                            fill="currentColor"
-                            viewBox="0 0 24 24"
+                          <button
+                            className="w-full px-3 py-2 text-left text-xs text-secondary-700 hover:bg-primary-50 transition-colors flex items-center gap-2"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setActiveOptionsMenu(null);
+                              setRenamingChatId(chat.conversation_id);
+                            }}
                           >
-                            <path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2z" />
-                          </svg>
-                        </button>
-
-                        {/* Options Submenu - Slides out from three dots */}
-                        {activeOptionsMenu === chat.conversation_id && (
-                          <div 
-                            data-options-menu
-                            className="absolute right-0 top-full mt-1 bg-white rounded-md shadow-xl border border-gray-200 py-1 z-30 min-w-[100px]"
-                            onClick={(e) => e.stopPropagation()}
+                            <Pencil className="w-4 h-4" />
+                            Rename
+                          </button>
+                          <button
+                            className="w-full px-3 py-2 text-left text-xs text-secondary-700 hover:bg-primary-50 transition-colors flex items-center gap-2"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleTogglePin(chat);
+                            }}
+                          >
+                            {chat.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                            {chat.pinned ? 'Unpin' : 'Pin to top'}
+                          </button>
+                          <button
+                            className="w-full px-3 py-2 text-left text-xs text-secondary-700 hover:bg-primary-50 transition-colors flex items-center gap-2"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleArchiveChat(chat.conversation_id);
+                            }}
+                          >
+                            <Archive className="w-4 h-4" />
+                            Archive
+                          </button>
+                          <button
+                            className="w-full px-3 py-2 text-left text-xs text-red-600 hover:bg-red-50 transition-colors flex items-center gap-2"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteChat(chat.conversation_id);
+                            }}
                           >
-                            <button
-                              className="w-full px-3 py-2 text-left text-xs text-red-600 hover:bg-red-50 transition-colors flex items-center gap-2"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleDeleteChat(chat.conversation_id);
-                              }}
+                            <svg
+                              className="w-4 h-4"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
                             >
-                              <svg
-                                className="w-4 h-4"
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
-                              >
-                                <path
-                                  strokeLinecap="round"
-                                  strokeLinejoin="round"
-                                  strokeWidth={2}
-                                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                                />
-                              </svg>
-                              Delete
-                            </button>
-                          </div>
-                        )}
-                      </div>
-                    ))
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                              />
+                            </svg>
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </div>
                   )}
-                </div>
+                />
 
                 {/* View All Link */}
                 <div className="border-t border-gray-100 px-3 py-1.5 bg-gray-50">
@@ -363,32 +435,37 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
               <h3 className="text-[10px] font-semibold text-secondary-600 uppercase tracking-wider">History</h3>
             </div>
             {/* Chat History List */}
-            <div className="py-0 max-h-64 overflow-y-auto">
-              {loadingHistory ? (
-                <div className="px-3 py-4 text-center">
-                  <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
-                  <p className="text-[10px] text-secondary-400 mt-2">Loading...</p>
-                </div>
-              ) : chatHistory.length === 0 ? (
+            <InfiniteScrollList
+              items={conversations}
+              getKey={chat => chat.conversation_id}
+              hasMore={chatHistory.hasMore}
+              isLoading={chatHistory.loading}
+              onLoadMore={chatHistory.loadMore}
+              error={chatHistory.error ? 'Could not load conversations' : null}
+              className="py-0 max-h-64"
+              emptyState={
                 <div className="px-3 py-4 text-center">
                   <p className="text-[10px] text-secondary-400">No conversations yet</p>
                 </div>
-              ) : (
-                chatHistory.map((chat) => (
-                  <div
-                    key={chat.conversation_id}
-                    className="relative group/item px-3 py-1.5 hover:bg-gradient-to-r hover:from-primary-50 hover:to-transparent transition-all cursor-pointer border-l-2 border-transparent hover:border-primary-400"
-                    onClick={() => handleChatClick(chat.conversation_id)}
-                  >
-                    <div className="pr-5">
-                      <p className="text-xs font-medium text-secondary-900 truncate leading-tight">{chat.title || chat.topic || 'Untitled'}</p>
-                      <p className="text-[10px] text-secondary-400 mt-0.5 leading-none">{formatTimestamp(chat.updated_at)}</p>
-                    </div>
-                    {/* Options menu for mobile can be added here if needed */}
+              }
+              renderItem={chat => (
+                <div
+                  className="relative group/item px-3 py-1.5 hover:bg-gradient-to-r hover:from-primary-50 hover:to-transparent transition-all cursor-pointer border-l-2 border-transparent hover:border-primary-400"
+                  onClick={() => handleChatClick(chat.conversation_id)}
+                >
+                  <div className="pr-5">
+                    <p className="flex items-center gap-1 text-xs font-medium text-secondary-900 leading-tight">
+                      {chat.pinned && <Pin className="w-3 h-3 flex-shrink-0 text-primary-500" aria-label="Pinned chat" />}
+                      {isFork(chat) && <GitBranch className="w-3 h-3 flex-shrink-0 text-primary-500" aria-label="Forked chat" />}
+                      <span className="truncate">{chat.title || chat.topic || 'Untitled'}</span>
+                    </p>
+                    <p className="text-[10px] text-secondary-400 mt-0.5 leading-none">{formatTimestamp(chat.updated_at)}</p>
                   </div>
-                ))
+                  {/* Options menu for mobile can be added here if needed */}
+                </div>
               )}
-            </div>
+            />
+
             {/* View All Link */}
             <div className="border-t border-gray-100 px-3 py-1.5 bg-gray-50">
               <button
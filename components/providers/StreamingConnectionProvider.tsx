@@ -0,0 +1,50 @@
+'use client';
+
+import React, { createContext, useEffect, useState } from 'react';
+import { appInitializer } from '@/lib/utils/appInitializer';
+import {
+  streamingConnectionManager,
+  type StreamingConnectionState,
+} from '@/lib/services/streamingConnectionManager';
+
+export interface StreamingConnectionContextValue {
+  state: StreamingConnectionState;
+}
+
+export const StreamingConnectionContext = createContext<StreamingConnectionContextValue>({
+  state: 'idle',
+});
+
+/**
+ * Opens the shared streaming connection as soon as the session is ready.
+ * Mounted once in the root layout so the socket survives route changes.
+ */
+export default function StreamingConnectionProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState(() => streamingConnectionManager.getState());
+
+  useEffect(() => {
+    const unsubscribe = streamingConnectionManager.subscribe(() => {
+      setState(streamingConnectionManager.getState());
+    });
+
+    const warmUp = async () => {
+      try {
+        await appInitializer.initialize();
+        await streamingConnectionManager.ensureConnected();
+        console.log('✅ [StreamingConnection] Shared connection ready');
+      } catch (error) {
+        console.error('❌ [StreamingConnection] Warm-up failed:', error);
+      }
+    };
+
+    warmUp();
+
+    return unsubscribe;
+  }, []);
+
+  return (
+    <StreamingConnectionContext.Provider value={{ state }}>
+      {children}
+    </StreamingConnectionContext.Provider>
+  );
+}
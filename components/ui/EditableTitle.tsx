@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Pencil } from 'lucide-react';
+
+interface EditableTitleProps {
+  value: string;
+  onSave: (title: string) => Promise<void>; // Reject to keep the editor open and show the message
+  isEditing?: boolean; // Controlled editing, e.g. started from a menu; uncontrolled shows a pencil button
+  onEditingChange?: (isEditing: boolean) => void;
+  className?: string; // Text styles, shared by the title and the input
+  placeholder?: string;
+}
+
+interface TitleInputProps {
+  value: string;
+  onSave: (title: string) => Promise<void>;
+  onClose: () => void;
+  className: string;
+  placeholder: string;
+}
+
+// Mounted each time editing starts, so the draft and error always begin from the current title
+function TitleInput({ value, onSave, onClose, className, placeholder }: TitleInputProps) {
+  const [draft, setDraft] = useState(value);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const save = async () => {
+    if (isSaving) return;
+    const title = draft.trim();
+    if (!title || title === value) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(title);
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Could not rename');
+      inputRef.current?.focus();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      save();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <span className="flex flex-col min-w-0 w-full">
+      <input
+        ref={inputRef}
+        value={draft}
+        onChange={event => setDraft(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={save}
+        onClick={event => event.stopPropagation()}
+        disabled={isSaving}
+        placeholder={placeholder}
+        maxLength={120}
+        className={`w-full min-w-0 bg-white border border-primary-300 rounded px-1 focus:outline-none focus:border-primary-500 disabled:opacity-60 ${className}`}
+        aria-label="Conversation title"
+      />
+      {error && <span className="text-[10px] text-red-600 mt-0.5">{error}</span>}
+    </span>
+  );
+}
+
+/**
+ * A title that turns into a text field: Enter or leaving the field saves, Escape cancels
+ */
+export default function EditableTitle({
+  value,
+  onSave,
+  isEditing: controlledEditing,
+  onEditingChange,
+  className = '',
+  placeholder = 'Untitled',
+}: EditableTitleProps) {
+  const [localEditing, setLocalEditing] = useState(false);
+
+  const isEditing = controlledEditing ?? localEditing;
+
+  const setEditing = (editing: boolean) => {
+    setLocalEditing(editing);
+    onEditingChange?.(editing);
+  };
+
+  if (!isEditing) {
+    if (controlledEditing !== undefined) {
+      return <span className={`truncate ${className}`}>{value || placeholder}</span>;
+    }
+    return (
+      <span className="group/title inline-flex items-center gap-2 min-w-0">
+        <span className={`truncate ${className}`}>{value || placeholder}</span>
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="p-1 rounded text-secondary-400 hover:text-secondary-700 hover:bg-secondary-100 opacity-60 group-hover/title:opacity-100 transition-opacity"
+          aria-label="Rename conversation"
+          title="Rename"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <TitleInput
+      value={value}
+      onSave={onSave}
+      onClose={() => setEditing(false)}
+      className={className}
+      placeholder={placeholder}
+    />
+  );
+}
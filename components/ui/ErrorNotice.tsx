@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Clock, Coins, Cpu, KeyRound, RotateCcw, Timer, WifiOff, X } from 'lucide-react';
+import { ServiceError, RateLimitedError } from '../../lib/services/serviceErrors';
+import { DeviceManager } from '../../lib/utils/deviceManager';
+import { sessionManager } from '../../lib/utils/sessionManager';
+import type { APIErrorKind } from '../../lib/types/api';
+
+interface ErrorNoticeProps {
+  error: ServiceError | Error | string; // Plain messages are shown as they are
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  onUseBestModel?: () => void; // Offered when the selected model is unavailable
+  className?: string;
+}
+
+interface ErrorCopy {
+  title: string;
+  description: string;
+  icon: React.ComponentType<{ className?: string }>;
+  tone: 'warning' | 'error';
+}
+
+function describeError(kind: APIErrorKind, message: string, isOffline: boolean): ErrorCopy {
+  switch (kind) {
+    case 'credits_exhausted':
+      return {
+        title: 'Out of Vedika coins',
+        description: "You've used today's coins. They refill daily, so come back tomorrow to keep chatting.",
+        icon: Coins,
+        tone: 'warning',
+      };
+    case 'session_expired':
+      return {
+        title: 'Your session expired',
+        description: 'Start a new session to keep chatting. Your chats stay on this device.',
+        icon: KeyRound,
+        tone: 'warning',
+      };
+    case 'rate_limited':
+      return {
+        title: 'Too many requests',
+        description: 'Vedika is getting a lot of messages from you. Wait a moment and try again.',
+        icon: Clock,
+        tone: 'warning',
+      };
+    case 'model_unavailable':
+      return {
+        title: 'Model unavailable',
+        description: `${message} Switch to Best and Vedika will pick an available model.`,
+        icon: Cpu,
+        tone: 'warning',
+      };
+    case 'network':
+      return {
+        title: isOffline ? "You're offline" : "Can't reach Vedika",
+        description: isOffline
+          ? 'Reconnect to the internet and try again.'
+          : 'Check your connection and try again. If it keeps happening, Vedika may be down.',
+        icon: WifiOff,
+        tone: 'error',
+      };
+    case 'timeout':
+      return {
+        title: 'Vedika is taking too long',
+        description: 'The server did not answer in time. Try again in a moment.',
+        icon: Timer,
+        tone: 'error',
+      };
+    case 'server':
+      return {
+        title: 'Something went wrong on our side',
+        description: message,
+        icon: AlertTriangle,
+        tone: 'error',
+      };
+    default:
+      return { title: 'Error', description: message, icon: AlertTriangle, tone: 'error' };
+  }
+}
+
+/**
+ * Explains a failed request and offers the recovery that fits it: retry, a new session,
+ * switching to the Best model, or waiting out a rate limit
+ */
+export default function ErrorNotice({ error, onRetry, onDismiss, onUseBestModel, className = '' }: ErrorNoticeProps) {
+  const [waitSeconds, setWaitSeconds] = useState(0);
+  const [isRestarting, setIsRestarting] = useState(false);
+
+  const message = typeof error === 'string' ? error : error.message;
+  const kind: APIErrorKind = error instanceof ServiceError ? error.kind : 'unknown';
+  const isOffline = typeof navigator !== 'undefined' && !navigator.onLine;
+  const copy = describeError(kind, message, isOffline);
+  const Icon = copy.icon;
+
+  // Count down a rate limit before offering to retry
+  useEffect(() => {
+    const retryAfterMs = error instanceof RateLimitedError ? error.retryAfterMs : null;
+    if (!retryAfterMs) {
+      setWaitSeconds(0);
+      return;
+    }
+
+    const until = Date.now() + retryAfterMs;
+    const tick = () => setWaitSeconds(Math.max(0, Math.ceil((until - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [error]);
+
+  const handleNewSession = async () => {
+    setIsRestarting(true);
+    try {
+      console.log('🔐 [ErrorNotice] Starting a new session');
+      DeviceManager.clearSession();
+      await sessionManager.refresh();
+      onDismiss?.();
+      onRetry?.();
+    } catch (sessionError) {
+      console.error('❌ [ErrorNotice] Could not start a new session:', sessionError);
+    } finally {
+      setIsRestarting(false);
+    }
+  };
+
+  const toneClasses = copy.tone === 'warning'
+    ? 'bg-amber-50 border-amber-200 text-amber-800'
+    : 'bg-red-50 border-red-200 text-red-700';
+  const buttonClasses = 'flex items-center gap-1 px-3 py-1 rounded-lg border border-current text-xs font-medium hover:bg-white/60 disabled:opacity-50';
+
+  const actions: React.ReactNode[] = [];
+  if (kind === 'session_expired') {
+    actions.push(
+      <button key="session" type="button" onClick={handleNewSession} disabled={isRestarting} className={buttonClasses}>
+        <KeyRound className="w-3 h-3" />
+        {isRestarting ? 'Starting…' : 'Start new session'}
+      </button>
+    );
+  } else if (kind === 'model_unavailable' && onUseBestModel) {
+    actions.push(
+      <button key="best" type="button" onClick={() => { onUseBestModel(); onDismiss?.(); }} className={buttonClasses}>
+        <Cpu className="w-3 h-3" />
+        Use Best model
+      </button>
+    );
+  } else if (kind !== 'credits_exhausted' && onRetry) {
+    actions.push(
+      <button key="retry" type="button" onClick={onRetry} disabled={waitSeconds > 0} className={buttonClasses}>
+        <RotateCcw className="w-3 h-3" />
+        {waitSeconds > 0 ? `Try again in ${waitSeconds}s` : 'Try again'}
+      </button>
+    );
+  }
+
+  return (
+    <div role="alert" className={`border rounded-lg p-4 text-sm ${toneClasses} ${className}`}>
+      <div className="flex items-start gap-3">
+        <Icon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold">{copy.title}</p>
+          <p className="mt-1">{copy.description}</p>
+          {actions.length > 0 && <div className="flex flex-wrap gap-2 mt-3">{actions}</div>}
+        </div>
+        {onDismiss && (
+          <button type="button" onClick={onDismiss} className="p-1 rounded hover:bg-white/60" aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
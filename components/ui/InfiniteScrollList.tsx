@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+
+interface InfiniteScrollListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+  error?: string | null; // Pauses auto-loading and offers a retry instead
+  emptyState?: React.ReactNode;
+  className?: string; // Applied to the scroll container, e.g. a max height
+  rootMargin?: string; // How far ahead of the end to start fetching
+}
+
+/**
+ * Scrollable list that asks for the next page when its end scrolls into view.
+ * The parent owns the items and the fetching; this only watches the scroll position.
+ */
+export default function InfiniteScrollList<T>({
+  items,
+  getKey,
+  renderItem,
+  hasMore,
+  isLoading,
+  onLoadMore,
+  error,
+  emptyState,
+  className = '',
+  rootMargin = '80px',
+}: InfiniteScrollListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  const canLoad = hasMore && !isLoading && !error;
+
+  // Re-observed after every page, so a page too short to scroll still pulls in the next one
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!canLoad || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { root: containerRef.current, rootMargin }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoad, items.length, rootMargin]);
+
+  return (
+    <div ref={containerRef} className={`overflow-y-auto ${className}`}>
+      {items.length === 0 && !isLoading && !error ? emptyState : items.map(item => (
+        <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>
+      ))}
+
+      {isLoading && (
+        <div className="px-3 py-3 text-center">
+          <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
+          <p className="text-[10px] text-secondary-400 mt-1">Loading...</p>
+        </div>
+      )}
+
+      {error && !isLoading && (
+        <div className="px-3 py-3 text-center">
+          <p className="text-[10px] text-red-600">{error}</p>
+          <button
+            type="button"
+            onClick={onLoadMore}
+            className="mt-1 text-[10px] font-semibold text-primary-600 hover:text-primary-700 uppercase tracking-wider"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {canLoad && <div ref={sentinelRef} className="h-px" aria-hidden="true" />}
+    </div>
+  );
+}
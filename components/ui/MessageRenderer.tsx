@@ -0,0 +1,160 @@
+'use client';
+
+import React, { memo, useMemo, useState } from 'react';
+import ReactMarkdown, { type Components, type ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import type { Citation } from '../../lib/types/api';
+
+interface MessageRendererProps {
+  content: string;
+  isStreaming?: boolean;
+  citations?: Citation[];
+  className?: string;
+}
+
+// Sanitize first, then highlight: highlight.js output is trusted, backend markdown is not
+const REMARK_PLUGINS = [remarkGfm];
+const REHYPE_PLUGINS = [rehypeSanitize, rehypeHighlight];
+
+const FENCE_PATTERN = /^ {0,3}(```|~~~)/;
+
+/**
+ * Close a code fence left open by a partial stream, so the rest of the answer
+ * doesn't flip between prose and code as chunks arrive
+ */
+function closeOpenFences(markdown: string): string {
+  let openFence: string | null = null;
+  markdown.split('\n').forEach(line => {
+    const match = line.match(FENCE_PATTERN);
+    if (!match) return;
+    if (openFence === null) {
+      openFence = match[1];
+    } else if (match[1] === openFence) {
+      openFence = null;
+    }
+  });
+  return openFence ? `${markdown}\n${openFence}` : markdown;
+}
+
+/**
+ * Turn [n] markers into links to the cited source (fenced code is left alone)
+ */
+function linkCitations(markdown: string, citations?: Citation[]): string {
+  if (!citations || citations.length === 0) return markdown;
+  const byIndex = new Map(citations.map(citation => [citation.index, citation]));
+
+  return markdown
+    .split(/(^ {0,3}(?:```|~~~)[\s\S]*?^ {0,3}(?:```|~~~)[^\n]*$)/m)
+    .map((segment, position) => {
+      if (position % 2 === 1) return segment; // Code block
+      return segment.replace(/\[(\d+)\](?![(\[])/g, (marker, number: string) => {
+        const citation = byIndex.get(Number(number));
+        return citation ? `[${number}](${citation.url} "${citation.title.replace(/"/g, "'")}")` : marker;
+      });
+    })
+    .join('');
+}
+
+// hast nodes, as react-markdown hands them to components
+type HastElement = NonNullable<ExtraProps['node']>;
+type HastContent = HastElement['children'][number];
+
+function getText(node: HastContent | undefined): string {
+  if (!node) return '';
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(getText).join('');
+  return '';
+}
+
+function CodeBlock({ node, children }: { node?: HastElement; children?: React.ReactNode }) {
+  const [copied, setCopied] = useState(false);
+  const code = node?.children[0];
+  const className = code?.type === 'element' ? code.properties.className : undefined;
+  const language = (Array.isArray(className) ? className : [])
+    .map(String)
+    .find(name => name.startsWith('language-'))
+    ?.replace('language-', '');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getText(code).replace(/\n$/, ''));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('❌ [MessageRenderer] Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <div className="my-3 rounded-lg overflow-hidden border border-secondary-200 bg-secondary-50">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-secondary-100 text-xs text-secondary-600">
+        <span className="font-mono">{language || 'text'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center gap-1 hover:text-secondary-900"
+          aria-label="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm">{children}</pre>
+    </div>
+  );
+}
+
+function createComponents(citations?: Citation[]): Components {
+  const citationUrls = new Set((citations || []).map(citation => citation.url));
+
+  return {
+    pre: CodeBlock,
+    a: ({ href, title, children }) => {
+      const isCitation = href !== undefined && citationUrls.has(href) && /^\d+$/.test(String(children));
+      return (
+        <a
+          href={href}
+          title={title}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={isCitation
+            ? 'inline-flex items-center justify-center align-super min-w-[1.1rem] h-4 px-1 mx-0.5 rounded bg-primary-100 text-primary-700 text-[10px] font-semibold no-underline hover:bg-primary-200'
+            : 'text-primary-700 underline hover:text-primary-800'}
+        >
+          {children}
+        </a>
+      );
+    },
+    table: ({ children }) => (
+      <div className="my-3 overflow-x-auto">
+        <table>{children}</table>
+      </div>
+    ),
+  };
+}
+
+/**
+ * Markdown for assistant messages: GFM, highlighted code with a copy button, sanitized HTML.
+ * Safe to render while the answer is still streaming.
+ */
+function MessageRenderer({ content, isStreaming = false, citations, className = '' }: MessageRendererProps) {
+  const markdown = useMemo(() => {
+    const linked = linkCitations(content, citations);
+    return isStreaming ? closeOpenFences(linked) : linked;
+  }, [content, citations, isStreaming]);
+
+  const components = useMemo(() => createComponents(citations), [citations]);
+
+  return (
+    <div className={`message-markdown text-secondary-900 ${className}`}>
+      <ReactMarkdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS} components={components}>
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+export default memo(MessageRenderer);
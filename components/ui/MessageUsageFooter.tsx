@@ -0,0 +1,71 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import type { MessageUsage } from '../../lib/types/api';
+
+interface MessageUsageFooterProps {
+  usage: MessageUsage;
+  className?: string;
+}
+
+const formatMs = (ms?: number) => {
+  if (ms === undefined) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const formatNumber = (value?: number) => (value === undefined ? '—' : value.toLocaleString());
+
+/**
+ * Expandable footer under an assistant message: model, routing, tokens, coins and timings
+ */
+export default function MessageUsageFooter({ usage, className = '' }: MessageUsageFooterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const modelLabel = usage.model_name || usage.model || 'Unknown model';
+  const summary = [
+    modelLabel,
+    usage.tokens !== undefined ? `${formatNumber(usage.tokens)} tokens` : null,
+    usage.coins_used !== undefined ? `${usage.coins_used} ${usage.coins_used === 1 ? 'coin' : 'coins'}` : null,
+  ].filter(Boolean).join(' · ');
+
+  const rows: [string, string][] = [
+    ['Model', usage.model && usage.model_name && usage.model !== usage.model_name
+      ? `${usage.model_name} (${usage.model})`
+      : modelLabel],
+    ...(usage.routing
+      ? [['Routing', `${usage.routing.reason} (${Math.round(usage.routing.confidence * 100)}% confidence)`] as [string, string]]
+      : []),
+    ['Tokens', usage.input_tokens !== undefined || usage.output_tokens !== undefined
+      ? `${formatNumber(usage.tokens)} (${formatNumber(usage.input_tokens)} in / ${formatNumber(usage.output_tokens)} out)`
+      : formatNumber(usage.tokens)],
+    ['Coins used', formatNumber(usage.coins_used)],
+    ['Time to first token', formatMs(usage.time_to_first_token_ms)],
+    ['Total duration', formatMs(usage.duration_ms)],
+  ];
+
+  return (
+    <div className={`mt-2 text-xs text-secondary-500 ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 hover:text-secondary-800"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        <span>{summary}</span>
+      </button>
+
+      {isOpen && (
+        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-secondary-400">{label}</dt>
+              <dd className="text-secondary-700">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, ExternalLink } from 'lucide-react';
+import type { Citation } from '../../lib/types/api';
+
+interface SourcesPanelProps {
+  citations: Citation[];
+  className?: string;
+}
+
+/**
+ * Collapsible list of the sources cited in an answer
+ */
+export default function SourcesPanel({ citations, className = '' }: SourcesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (citations.length === 0) return null;
+
+  return (
+    <div className={`mt-3 border-t border-primary-200 pt-2 ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 text-xs font-medium text-secondary-600 hover:text-secondary-900"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        Sources ({citations.length})
+      </button>
+
+      {isOpen && (
+        <ol className="mt-2 space-y-2">
+          {citations.map(citation => (
+            <li key={`${citation.index}-${citation.url}`} className="flex gap-2 text-xs">
+              <span className="flex-shrink-0 inline-flex items-center justify-center w-5 h-5 rounded bg-primary-100 text-primary-700 font-semibold">
+                {citation.index}
+              </span>
+              <div className="min-w-0">
+                <a
+                  href={citation.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 font-medium text-secondary-900 hover:text-primary-700"
+                >
+                  <span className="truncate">{citation.title}</span>
+                  <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                </a>
+                <p className="text-secondary-500">{citation.domain}</p>
+                {citation.snippet && (
+                  <p className="text-secondary-600 mt-0.5 line-clamp-2">{citation.snippet}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
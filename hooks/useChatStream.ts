@@ -0,0 +1,789 @@
+/**
+ * React Hook for streaming chat
+ * Owns the message list of one conversation and drives each assistant message
+ * through pending -> streaming -> complete | error | cancelled, keyed by message id.
+ * Regenerated answers and edited questions are kept as alternate versions of the thread.
+ * Messages that can't be sent while offline wait in the outbox and go out in order on reconnect.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useStreamingConnection } from './useStreamingConnection';
+import { DeviceManager } from '../lib/utils/deviceManager';
+import { sessionManager } from '../lib/utils/sessionManager';
+import { coinsStore } from '../lib/stores/coinsStore';
+import { outboxStore, isNetworkError, type OutboxItem } from '../lib/stores/outboxStore';
+import {
+  CreditsExhaustedError,
+  NetworkError,
+  TimeoutError,
+  serviceErrorFromMessage,
+  toServiceError,
+  type ServiceError,
+} from '../lib/services/serviceErrors';
+import { ChunkAssembler, hasIntegrityMismatch } from '../lib/utils/chunkAssembler';
+import { FrameBatcher } from '../lib/utils/frameBatcher';
+import { normalizeCitations } from '../lib/utils/citations';
+import {
+  startChatConversation,
+  createWebSocketStreamRequest,
+  type ChatStartResponse,
+} from '../lib/services/apiService';
+import type { StreamingConnection } from '../lib/services/streamingConnectionManager';
+import type { StreamTrace } from '../lib/services/streamRecorder';
+import type { Message, MessageUsage } from '../lib/types/api';
+
+// Alternate versions of the thread after one message: each tail is the list of message ids
+// that followed it in that version
+interface Branch {
+  tails: string[][];
+  active: number;
+}
+
+interface MessageState {
+  order: string[]; // The visible thread
+  byId: Record<string, Message>; // Every message, including ones in hidden versions
+  branches: Record<string, Branch>; // Keyed by the id of the message the versions follow
+}
+
+export interface VersionInfo {
+  parentKey: string;
+  current: number; // 1-based
+  total: number;
+}
+
+interface ActiveStream {
+  conversationId: string;
+  assistantId: string;
+  unsubscribe: () => void;
+  batcher: FrameBatcher;
+}
+
+// What an assistant message was streamed from, so it can be retried
+interface StreamedRequest {
+  text: string;
+  conversationId: string;
+  trace?: StreamTrace; // When stream recording is on
+}
+
+
+export interface SendOptions {
+  modelId?: string;
+  interactionMode?: 'type' | 'dictation' | 'voice';
+}
+
+const EMPTY_STATE: MessageState = { order: [], byId: {}, branches: {} };
+
+// Branch key for versions that start at the first message
+const ROOT_KEY = '__root__';
+
+// Backoff before the outbox tries again after a failed send, doubling with each attempt
+const FLUSH_RETRY_BASE_MS = 2000;
+const FLUSH_RETRY_MAX_MS = 60000;
+
+function getParentKey(order: string[], index: number): string {
+  return index > 0 ? order[index - 1] : ROOT_KEY;
+}
+
+/**
+ * Replace everything after `parentKey` with a new version made of `messages`,
+ * keeping the current tail as an alternate
+ */
+function addVersion(state: MessageState, parentKey: string, messages: (Message & { id: string })[]): MessageState {
+  const parentIndex = parentKey === ROOT_KEY ? -1 : state.order.indexOf(parentKey);
+  const currentTail = state.order.slice(parentIndex + 1);
+  const newTail = messages.map(message => message.id);
+  const existing = state.branches[parentKey];
+
+  const tails = existing ? [...existing.tails] : [currentTail];
+  if (existing) tails[existing.active] = currentTail; // The tail may have grown since it was saved
+  tails.push(newTail);
+
+  const byId = { ...state.byId };
+  messages.forEach(message => { byId[message.id] = message; });
+
+  return {
+    order: [...state.order.slice(0, parentIndex + 1), ...newTail],
+    byId,
+    branches: { ...state.branches, [parentKey]: { tails, active: tails.length - 1 } },
+  };
+}
+
+/**
+ * Usage known as soon as /ai/chat/start returns (tokens and timings follow from the stream)
+ */
+export function usageFromStart(
+  start: Pick<ChatStartResponse, 'model' | 'model_name' | 'vedika_coins_used' | 'routing'>
+): MessageUsage {
+  return {
+    model: start.model,
+    model_name: start.model_name,
+    coins_used: start.vedika_coins_used,
+    routing: start.routing,
+  };
+}
+
+export function createMessageId(prefix: 'user' | 'assistant' | 'msg'): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+function createUserMessage(text: string): Message & { id: string } {
+  return {
+    id: createMessageId('user'),
+    role: 'user',
+    content: text,
+    timestamp: new Date().toISOString(),
+    status: 'complete',
+  };
+}
+
+function createPendingAssistant(): Message & { id: string } {
+  return {
+    id: createMessageId('assistant'),
+    role: 'assistant',
+    content: '',
+    timestamp: new Date().toISOString(),
+    status: 'pending',
+  };
+}
+
+function toMessageState(messages: Message[]): MessageState {
+  const state: MessageState = { order: [], byId: {}, branches: {} };
+  messages.forEach(message => {
+    const id = message.id || message.message_id || createMessageId('msg');
+    if (state.byId[id]) return; // Skip duplicates from the backend
+    state.order.push(id);
+    state.byId[id] = { ...message, id, status: message.status ?? 'complete' };
+  });
+  return state;
+}
+
+// `connection` replaces the shared streaming connection, e.g. for a trace replay
+export function useChatStream(conversationId: string | null, connection?: StreamingConnection) {
+  const sharedConnection = useStreamingConnection();
+  const { service, ensureConnected } = connection ?? sharedConnection;
+  const [state, setState] = useState<MessageState>(EMPTY_STATE);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [error, setError] = useState<ServiceError | string | null>(null);
+  const activeStreamRef = useRef<ActiveStream | null>(null);
+  const requestsRef = useRef(new Map<string, StreamedRequest>());
+  const [queued, setQueued] = useState<OutboxItem[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isFlushPaused, setIsFlushPaused] = useState(false); // A send failed; wait for 'online' or the backoff
+  const isFlushingRef = useRef(false);
+
+  const stateRef = useRef(state);
+  const messages = useMemo(() => state.order.map(id => state.byId[id]), [state]);
+  const isStreaming = messages.some(m => m.status === 'pending' || m.status === 'streaming');
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  // Start fresh whenever we switch conversations
+  useEffect(() => {
+    setState(EMPTY_STATE);
+    setError(null);
+    setIsReconnecting(false);
+    setIsFlushPaused(false);
+    requestsRef.current.clear();
+
+    return () => {
+      activeStreamRef.current?.batcher.cancel();
+      activeStreamRef.current?.unsubscribe();
+      activeStreamRef.current = null;
+    };
+  }, [conversationId]);
+
+  // Queued messages of this conversation
+  useEffect(() => {
+    if (!conversationId) {
+      setQueued([]);
+      return;
+    }
+
+    const update = () => setQueued(outboxStore.getForConversation(conversationId));
+    const unsubscribe = outboxStore.subscribe(update);
+    update();
+    outboxStore.load();
+    return unsubscribe;
+  }, [conversationId]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      console.log('🌐 [useChatStream] Back online');
+      setIsOnline(true);
+      setIsFlushPaused(false);
+    };
+    const handleOffline = () => {
+      console.log('📴 [useChatStream] Offline');
+      setIsOnline(false);
+    };
+
+    setIsOnline(navigator.onLine);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const addMessage = useCallback((message: Message & { id: string }) => {
+    setState(prev => {
+      if (prev.byId[message.id]) return prev;
+      return {
+        ...prev,
+        order: [...prev.order, message.id],
+        byId: { ...prev.byId, [message.id]: message },
+      };
+    });
+  }, []);
+
+  const updateMessage = useCallback((id: string, update: Partial<Message> | ((message: Message) => Partial<Message>)) => {
+    setState(prev => {
+      const current = prev.byId[id];
+      if (!current) return prev;
+      const patch = typeof update === 'function' ? update(current) : update;
+      if (Object.keys(patch).length === 0) return prev;
+      return { ...prev, byId: { ...prev.byId, [id]: { ...current, ...patch } } };
+    });
+  }, []);
+
+  const removeMessage = useCallback((id: string) => {
+    setState(prev => {
+      if (!prev.byId[id]) return prev;
+      const byId = { ...prev.byId };
+      delete byId[id];
+      return { ...prev, order: prev.order.filter(messageId => messageId !== id), byId };
+    });
+  }, []);
+
+  // Replace the thread, e.g. with history loaded from the API
+  const loadMessages = useCallback((loaded: Message[]) => {
+    setState(toMessageState(loaded));
+  }, []);
+
+  const finishStream = useCallback((assistantId: string) => {
+    const active = activeStreamRef.current;
+    if (!active || active.assistantId !== assistantId) return;
+    active.batcher.cancel();
+    active.unsubscribe();
+    activeStreamRef.current = null;
+    setIsReconnecting(false);
+
+    // Keep this reply's trace; the next stream of the conversation starts a new one
+    const request = requestsRef.current.get(assistantId);
+    if (request) request.trace = service.stopRecording(active.conversationId) ?? undefined;
+  }, [service]);
+
+  /**
+   * Stream the assistant reply for a conversation that has already been started via REST
+   */
+  const streamReply = useCallback(async (
+    text: string,
+    options: {
+      streamConversationId?: string;
+      assistantId?: string;
+      usage?: MessageUsage;
+      startedAt?: number; // Date.now() when the user submitted; defaults to now
+    } = {}
+  ): Promise<void> => {
+    const streamConversationId = options.streamConversationId ?? conversationId;
+    if (!streamConversationId) {
+      throw new Error('No conversation to stream');
+    }
+
+    // Only one reply streams per thread at a time. The one being replaced keeps its text and stops its spinner
+    const previous = activeStreamRef.current;
+    if (previous) {
+      previous.batcher.flush();
+      previous.unsubscribe();
+      activeStreamRef.current = null;
+      if (previous.assistantId !== options.assistantId) {
+        updateMessage(previous.assistantId, message =>
+          message.status === 'pending' || message.status === 'streaming' ? { status: 'cancelled', truncated: true } : {}
+        );
+      }
+    }
+
+    const assistantId = options.assistantId ?? createMessageId('assistant');
+    if (!options.assistantId) {
+      addMessage({
+        id: assistantId,
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        status: 'pending',
+        usage: options.usage,
+      });
+    } else if (options.usage) {
+      updateMessage(assistantId, { usage: options.usage });
+    }
+
+    const startedAt = options.startedAt ?? Date.now();
+    let firstChunkAt: number | null = null;
+    const withTimings = (usage: MessageUsage | undefined, extra: MessageUsage = {}): MessageUsage => ({
+      ...usage,
+      ...extra,
+      time_to_first_token_ms: firstChunkAt !== null ? firstChunkAt - startedAt : undefined,
+      duration_ms: Date.now() - startedAt,
+    });
+
+    requestsRef.current.set(assistantId, { text, conversationId: streamConversationId });
+
+    // Lives as long as this reply, so chunks re-sent after a resume are de-duplicated
+    const assembler = new ChunkAssembler();
+
+    // Chunks land in the assembler as they arrive; React sees the text at most once per frame
+    const batcher = new FrameBatcher(() => {
+      updateMessage(assistantId, message =>
+        message.status === 'pending' || message.status === 'streaming'
+          ? { status: 'streaming', content: assembler.getText() }
+          : {} // Already finished; the final text was written directly
+      );
+    });
+
+    const unsubscribe = service.subscribe(streamConversationId, {
+      onStreamStart: (event) => {
+        console.log('🎬 [useChatStream] Stream started:', event.model);
+        updateMessage(assistantId, { status: 'streaming' });
+      },
+      onContentChunk: (event) => {
+        if (!assembler.add(event.chunk_id, event.content)) return;
+        if (firstChunkAt === null) {
+          firstChunkAt = Date.now();
+          console.log('⏱️ [useChatStream] Time to first token:', firstChunkAt - startedAt, 'ms');
+        }
+        batcher.schedule();
+      },
+      onStreamComplete: (event) => {
+        console.log('✅ [useChatStream] Stream complete:', { chunks: event.total_chunks, tokens: event.tokens });
+        const report = assembler.verify(event.total_chunks, event.full_response);
+        const mismatch = hasIntegrityMismatch(report);
+        if (mismatch) {
+          console.warn('⚠️ [useChatStream] Streamed chunks do not match stream_complete:', report);
+        }
+        updateMessage(assistantId, message => ({
+          status: 'complete',
+          content: event.full_response || assembler.getText(),
+          integrity: mismatch ? report : undefined,
+          citations: normalizeCitations(event.citations),
+          usage: withTimings(message.usage, {
+            tokens: event.tokens,
+            input_tokens: event.input_tokens,
+            output_tokens: event.output_tokens,
+          }),
+        }));
+        // DO NOT update coins from stream_complete, it might be stale.
+        // The REST API call is the source of truth.
+        finishStream(assistantId);
+      },
+      onStreamError: (streamError) => {
+        console.error('❌ [useChatStream] Stream error:', streamError);
+        batcher.flush(); // Keep the text that arrived this frame
+        updateMessage(assistantId, { status: 'error', error: streamError });
+        setError(serviceErrorFromMessage(streamError));
+        finishStream(assistantId);
+      },
+      onStreamCancelled: () => {
+        console.log('⏹️ [useChatStream] Stream cancelled');
+        batcher.flush();
+        updateMessage(assistantId, message => ({
+          status: 'cancelled',
+          truncated: true,
+          usage: withTimings(message.usage),
+        }));
+        finishStream(assistantId);
+      },
+      onStreamTimeout: (timeoutError) => {
+        console.error('⏱️ [useChatStream] Stream timed out:', timeoutError.message);
+        batcher.flush();
+        updateMessage(assistantId, { status: 'error', error: timeoutError.message, retryable: true });
+        setError(new TimeoutError(timeoutError.message));
+        finishStream(assistantId);
+      },
+      onProtocolError: (protocolError) => {
+        console.warn('🚫 [useChatStream] Ignoring invalid stream event:', protocolError.message, protocolError.issues);
+        // The service has already closed the stream - settle the message with what we have
+        if (protocolError.eventType === 'stream_complete') {
+          updateMessage(assistantId, { status: 'complete', content: assembler.getText() });
+          finishStream(assistantId);
+        } else if (protocolError.eventType === 'stream_cancelled') {
+          batcher.flush();
+          updateMessage(assistantId, { status: 'cancelled', truncated: true });
+          finishStream(assistantId);
+        } else if (protocolError.eventType === 'stream_error') {
+          batcher.flush();
+          updateMessage(assistantId, { status: 'error', error: 'The server sent an unexpected response' });
+          setError('The server sent an unexpected response');
+          finishStream(assistantId);
+        }
+      },
+      onReconnecting: () => setIsReconnecting(true),
+      onStreamResumed: () => setIsReconnecting(false),
+      onCreditsInfo: (data) => {
+        coinsStore.updateFromChatResponse(data.vedika_coins_remaining);
+      },
+      onCreditsExhausted: (data) => {
+        console.warn('⚠️ [useChatStream] Credits exhausted:', data);
+        coinsStore.updateFromChatResponse(data.vedika_coins_remaining);
+        setError(new CreditsExhaustedError(data.message, 402, { ...data }));
+      },
+    });
+    activeStreamRef.current = { conversationId: streamConversationId, assistantId, unsubscribe, batcher };
+
+    try {
+      await ensureConnected();
+
+      const request = createWebSocketStreamRequest(
+        streamConversationId,
+        text,
+        DeviceManager.getSessionId() || '',
+        DeviceManager.getDeviceId() || '',
+        'anonymous'
+      );
+
+      if (!service.sendMessage(request)) {
+        throw new Error('Streaming connection is not open');
+      }
+      console.log('📡 [useChatStream] Streaming request sent for conversation:', streamConversationId);
+    } catch (streamError) {
+      const message = streamError instanceof Error ? streamError.message : 'Failed to connect';
+      console.error('❌ [useChatStream] Failed to start stream:', streamError);
+      updateMessage(assistantId, { status: 'error', error: message });
+      setError(new NetworkError(message));
+      finishStream(assistantId);
+    }
+  }, [conversationId, service, ensureConnected, addMessage, updateMessage, finishStream]);
+
+  /**
+   * Step 1 of every send: create the conversation via REST (this deducts coins).
+   * Sending again with the same idempotencyKey never charges twice.
+   */
+  const startConversation = useCallback(async (
+    text: string,
+    options: SendOptions = {},
+    idempotencyKey?: string
+  ): Promise<ChatStartResponse> => {
+    const sessionId = sessionManager.getCachedSession()?.session_id || DeviceManager.getSessionId();
+
+    const result = await startChatConversation({
+      message: text,
+      session_id: sessionId ?? '',
+      device_id: DeviceManager.getDeviceId(),
+      model_id: options.modelId || 'best',
+      request_type: 'anonymous',
+      interaction_mode: options.interactionMode || 'type',
+    }, idempotencyKey);
+
+    // Update coins immediately from REST API response
+    coinsStore.updateFromChatResponse(result.vedika_coins_remaining);
+    return result;
+  }, []);
+
+  /**
+   * Start `text` via REST and stream the answer into an assistant message that is already shown
+   */
+  const startAndStream = useCallback(async (
+    text: string,
+    assistantId: string,
+    options: SendOptions,
+    startedAt: number,
+    idempotencyKey?: string
+  ): Promise<ChatStartResponse> => {
+    const result = await startConversation(text, options, idempotencyKey);
+    await streamReply(text, {
+      streamConversationId: result.conversation_id,
+      assistantId,
+      usage: usageFromStart(result),
+      startedAt,
+    });
+    return result;
+  }, [startConversation, streamReply]);
+
+  /**
+   * Put a message (back) in the outbox of this conversation
+   */
+  const queueMessage = useCallback(async (
+    text: string,
+    options: SendOptions,
+    previous?: Pick<OutboxItem, 'id' | 'created_at' | 'attempts'>,
+    lastError?: string
+  ): Promise<void> => {
+    if (!conversationId) {
+      throw new Error('No conversation to queue the message in');
+    }
+
+    await outboxStore.enqueue({
+      id: previous?.id ?? createMessageId('user'),
+      conversation_id: conversationId,
+      text,
+      model_id: options.modelId,
+      interaction_mode: options.interactionMode,
+      created_at: previous?.created_at ?? new Date().toISOString(),
+      attempts: (previous?.attempts ?? 0) + (lastError ? 1 : 0),
+      last_error: lastError,
+    });
+  }, [conversationId]);
+
+  /**
+   * Add a user message, start it via REST and stream the reply into this thread.
+   * Resolves to null when the backend was unreachable and the message went to the outbox.
+   */
+  const deliver = useCallback(async (
+    text: string,
+    options: SendOptions,
+    queuedItem?: OutboxItem
+  ): Promise<ChatStartResponse | null> => {
+    setError(null);
+    const startedAt = Date.now();
+    const question = { ...createUserMessage(text), ...(queuedItem && { id: queuedItem.id }) };
+    addMessage(question);
+
+    const assistant = createPendingAssistant();
+    addMessage(assistant);
+
+    try {
+      // Keyed by the question, so a send that reached the backend before the connection dropped
+      // is not charged again when it goes out from the outbox
+      return await startAndStream(text, assistant.id, options, startedAt, question.id);
+    } catch (startError) {
+      removeMessage(assistant.id);
+      if (conversationId && isNetworkError(startError)) {
+        console.warn('📮 [useChatStream] Backend unreachable, queueing message:', startError);
+        removeMessage(question.id);
+        const previous = queuedItem ?? { id: question.id, created_at: question.timestamp, attempts: 0 };
+        await queueMessage(text, options, previous, (startError as Error).message);
+        return null;
+      }
+      throw startError;
+    }
+  }, [conversationId, addMessage, removeMessage, startAndStream, queueMessage]);
+
+  /**
+   * Send a message, or queue it when offline or while earlier messages are still queued (order is kept).
+   * Resolves to null when the message was queued.
+   */
+  const send = useCallback(async (text: string, options: SendOptions = {}): Promise<ChatStartResponse | null> => {
+    if (conversationId && (!navigator.onLine || queued.length > 0)) {
+      console.log('📮 [useChatStream] Queueing message until it can be sent');
+      await queueMessage(text, options);
+      return null;
+    }
+    return deliver(text, options);
+  }, [conversationId, queued.length, queueMessage, deliver]);
+
+  /**
+   * Take a message out of the outbox and send it; it goes back in when the send fails
+   */
+  const sendQueued = useCallback(async (item: OutboxItem): Promise<void> => {
+    console.log('📤 [useChatStream] Sending queued message:', item.id);
+    const options: SendOptions = { modelId: item.model_id, interactionMode: item.interaction_mode };
+    await outboxStore.remove(item.id);
+    try {
+      const result = await deliver(item.text, options, item);
+      if (!result) setIsFlushPaused(true);
+    } catch (sendError) {
+      console.error('❌ [useChatStream] Queued message failed:', sendError);
+      const serviceError = toServiceError(sendError, 'Failed to send message');
+      removeMessage(item.id);
+      await queueMessage(item.text, options, item, serviceError.message);
+      setIsFlushPaused(true);
+      setError(serviceError);
+    }
+  }, [deliver, removeMessage, queueMessage]);
+
+  // The backend can be down while the browser stays online, so no 'online' event would resume the outbox
+  const nextQueuedAttempts = queued[0]?.attempts ?? 0;
+  useEffect(() => {
+    if (!isFlushPaused) return;
+    const delay = Math.min(FLUSH_RETRY_BASE_MS * 2 ** nextQueuedAttempts, FLUSH_RETRY_MAX_MS);
+    const timer = setTimeout(() => {
+      console.log('🔁 [useChatStream] Retrying queued messages after', delay, 'ms');
+      setIsFlushPaused(false);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [isFlushPaused, nextQueuedAttempts]);
+
+  // Send queued messages one at a time: the next goes out once the previous reply has finished
+  useEffect(() => {
+    if (!isOnline || isFlushPaused || isStreaming || isFlushingRef.current || queued.length === 0) return;
+    isFlushingRef.current = true;
+    sendQueued(queued[0]).finally(() => {
+      isFlushingRef.current = false;
+    });
+  }, [isOnline, isFlushPaused, isStreaming, queued, sendQueued]);
+
+  /**
+   * Send one queued message now
+   */
+  const retryQueued = useCallback(async (id: string): Promise<void> => {
+    const item = queued.find(candidate => candidate.id === id);
+    if (!item || isStreaming || isFlushingRef.current) return;
+    setIsFlushPaused(false);
+    isFlushingRef.current = true;
+    try {
+      await sendQueued(item);
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [queued, isStreaming, sendQueued]);
+
+  const discardQueued = useCallback((id: string) => {
+    console.log('🗑️ [useChatStream] Discarding queued message:', id);
+    outboxStore.remove(id);
+  }, []);
+
+  /**
+   * Start a new version of the thread: the reply streams into an assistant message that is already shown.
+   * A failed start is shown on that message, since the version it replaced is still one click away.
+   */
+  const streamVersion = useCallback(async (text: string, assistantId: string, options: SendOptions, startedAt: number) => {
+    try {
+      await startAndStream(text, assistantId, options, startedAt);
+    } catch (startError) {
+      const message = startError instanceof Error ? startError.message : 'Failed to send message';
+      console.error('❌ [useChatStream] Failed to start new version:', startError);
+      updateMessage(assistantId, { status: 'error', error: message });
+      setError(toServiceError(startError, message));
+    }
+  }, [startAndStream, updateMessage]);
+
+  /**
+   * Answer the question before an assistant message again; the old answer is kept as a version
+   */
+  const regenerate = useCallback(async (assistantId: string, options: SendOptions = {}): Promise<void> => {
+    const { order, byId } = stateRef.current;
+    const index = order.indexOf(assistantId);
+    const question = index > 0 ? byId[order[index - 1]] : undefined;
+    if (!question || question.role !== 'user') {
+      console.warn('⚠️ [useChatStream] No question to regenerate an answer for:', assistantId);
+      return;
+    }
+
+    console.log('🔁 [useChatStream] Regenerating answer:', assistantId);
+    setError(null);
+    const startedAt = Date.now();
+    const assistant = createPendingAssistant();
+    setState(prev => addVersion(prev, getParentKey(prev.order, prev.order.indexOf(assistantId)), [assistant]));
+    await streamVersion(question.content, assistant.id, options, startedAt);
+  }, [streamVersion]);
+
+  /**
+   * Resend a user message with new text; the original question and everything after it is kept as a version
+   */
+  const editMessage = useCallback(async (userId: string, text: string, options: SendOptions = {}): Promise<void> => {
+    const index = stateRef.current.order.indexOf(userId);
+    if (index === -1) {
+      console.warn('⚠️ [useChatStream] Message to edit is not in the thread:', userId);
+      return;
+    }
+
+    console.log('✏️ [useChatStream] Editing message:', userId);
+    setError(null);
+    const startedAt = Date.now();
+    const question = createUserMessage(text);
+    const assistant = createPendingAssistant();
+    setState(prev => addVersion(prev, getParentKey(prev.order, prev.order.indexOf(userId)), [question, assistant]));
+    await streamVersion(text, assistant.id, options, startedAt);
+  }, [streamVersion]);
+
+  /**
+   * Version pager for the message that starts a version, e.g. { current: 2, total: 3 }
+   */
+  const getVersionInfo = useCallback((messageId: string): VersionInfo | null => {
+    const index = state.order.indexOf(messageId);
+    if (index === -1) return null;
+    const parentKey = getParentKey(state.order, index);
+    const branch = state.branches[parentKey];
+    if (!branch || branch.tails.length < 2) return null;
+    return { parentKey, current: branch.active + 1, total: branch.tails.length };
+  }, [state]);
+
+  /**
+   * Show another version (0-based) of the thread after `parentKey`
+   */
+  const switchVersion = useCallback((parentKey: string, version: number) => {
+    setState(prev => {
+      const branch = prev.branches[parentKey];
+      if (!branch || version < 0 || version >= branch.tails.length || version === branch.active) return prev;
+      const parentIndex = parentKey === ROOT_KEY ? -1 : prev.order.indexOf(parentKey);
+      if (parentKey !== ROOT_KEY && parentIndex === -1) return prev;
+
+      const tails = [...branch.tails];
+      tails[branch.active] = prev.order.slice(parentIndex + 1);
+      return {
+        ...prev,
+        order: [...prev.order.slice(0, parentIndex + 1), ...tails[version]],
+        branches: { ...prev.branches, [parentKey]: { tails, active: version } },
+      };
+    });
+  }, []);
+
+  /**
+   * Stream a failed reply again into the same message (the conversation is not restarted)
+   */
+  const retry = useCallback(async (assistantId: string): Promise<void> => {
+    const request = requestsRef.current.get(assistantId);
+    if (!request) {
+      console.warn('⚠️ [useChatStream] Nothing to retry for message:', assistantId);
+      return;
+    }
+
+    setError(null);
+    updateMessage(assistantId, {
+      status: 'pending',
+      content: '',
+      error: undefined,
+      retryable: undefined,
+      integrity: undefined,
+    });
+    await streamReply(request.text, { streamConversationId: request.conversationId, assistantId });
+  }, [streamReply, updateMessage]);
+
+  /**
+   * Stop generating the current reply; the partial answer is kept
+   */
+  const cancel = useCallback(() => {
+    const active = activeStreamRef.current;
+    if (!active) return;
+    console.log('⏹️ [useChatStream] Stop generating requested');
+    if (!service.cancelStream(active.conversationId)) {
+      // Nothing in flight on the socket yet - cancel locally
+      updateMessage(active.assistantId, { status: 'cancelled', truncated: true });
+      finishStream(active.assistantId);
+    }
+  }, [service, updateMessage, finishStream]);
+
+  /**
+   * The recorded trace of an assistant message's stream, once it has finished
+   */
+  const getStreamTrace = useCallback((assistantId: string): StreamTrace | null => {
+    return requestsRef.current.get(assistantId)?.trace ?? null;
+  }, []);
+
+  return {
+    messages,
+    isStreaming,
+    isReconnecting,
+    error,
+    setError,
+    addMessage,
+    updateMessage,
+    loadMessages,
+    startConversation,
+    streamReply,
+    send,
+    queued,
+    isOnline,
+    retryQueued,
+    discardQueued,
+    cancel,
+    retry,
+    regenerate,
+    editMessage,
+    getVersionInfo,
+    switchVersion,
+    getStreamTrace,
+  };
+}
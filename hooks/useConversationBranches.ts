@@ -0,0 +1,30 @@
+/**
+ * React Hook for the Conversation Branch Store
+ * Provides reactive access to fork information for the chat header and sidebar
+ */
+
+import { useState, useEffect } from 'react';
+import { branchStore } from '../lib/stores/branchStore';
+
+export function useConversationBranches() {
+  const [branches, setBranches] = useState(() => branchStore.getAll());
+
+  useEffect(() => {
+    // Subscribe to store changes
+    const unsubscribe = branchStore.subscribe(() => {
+      setBranches(branchStore.getAll());
+    });
+
+    // localStorage is only readable after mount
+    setBranches(branchStore.getAll());
+
+    return unsubscribe;
+  }, []);
+
+  return {
+    branches,
+    getBranch: (conversationId: string) =>
+      branches.find(branch => branch.conversation_id === conversationId) ?? null,
+    fork: branchStore.fork.bind(branchStore),
+  };
+}
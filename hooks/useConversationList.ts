@@ -0,0 +1,35 @@
+/**
+ * React Hook for the Conversation List Store
+ * Provides reactive access to the paged conversation history; pages stay cached between mounts
+ */
+
+import { useState, useEffect } from 'react';
+import { conversationListStore } from '../lib/stores/conversationListStore';
+
+export function useConversationList({ enabled = true }: { enabled?: boolean } = {}) {
+  const [data, setData] = useState(() => conversationListStore.getData());
+
+  useEffect(() => {
+    // Subscribe to store changes
+    const unsubscribe = conversationListStore.subscribe(() => {
+      setData(conversationListStore.getData());
+    });
+    setData(conversationListStore.getData());
+
+    return unsubscribe;
+  }, []);
+
+  // Fetch the first page once the list is needed
+  useEffect(() => {
+    if (enabled) {
+      conversationListStore.ensureLoaded();
+    }
+  }, [enabled]);
+
+  return {
+    ...data,
+    loadMore: () => conversationListStore.loadMore(),
+    refresh: () => conversationListStore.refresh(),
+    remove: (conversationId: string) => conversationListStore.remove(conversationId),
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * React Hook for the Conversation Meta Store
+ * Provides reactive renames, pins and archives, including the ones only kept in this browser
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { conversationMetaStore } from '../lib/stores/conversationMetaStore';
+import type { ConversationUpdate } from '../lib/types/api';
+
+export function useConversationMeta() {
+  const [meta, setMeta] = useState(() => conversationMetaStore.getAll());
+
+  useEffect(() => {
+    // Subscribe to store changes
+    const unsubscribe = conversationMetaStore.subscribe(() => {
+      setMeta(conversationMetaStore.getAll());
+    });
+
+    // localStorage is only readable after mount
+    setMeta(conversationMetaStore.getAll());
+
+    return unsubscribe;
+  }, []);
+
+  // Lays the changes kept in this browser over a listed conversation.
+  // A new function after every local change, so it can sit in useMemo dependencies
+  const applyMeta = useCallback(
+    <T extends { conversation_id: string } & ConversationUpdate>(conversation: T): T =>
+      meta[conversation.conversation_id] ? { ...conversation, ...meta[conversation.conversation_id] } : conversation,
+    [meta]
+  );
+
+  return {
+    applyMeta,
+    rename: conversationMetaStore.rename.bind(conversationMetaStore),
+    setPinned: conversationMetaStore.setPinned.bind(conversationMetaStore),
+    setArchived: conversationMetaStore.setArchived.bind(conversationMetaStore),
+  };
+}
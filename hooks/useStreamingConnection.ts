@@ -0,0 +1,22 @@
+/**
+ * React Hook for the shared streaming connection
+ * Every page gets the same WebSocketStreamingService instead of opening its own socket
+ */
+
+import { useContext } from 'react';
+import { StreamingConnectionContext } from '../components/providers/StreamingConnectionProvider';
+import { streamingConnectionManager } from '../lib/services/streamingConnectionManager';
+
+// Module-level so the reference is stable across renders (safe in effect deps)
+const ensureConnected = () => streamingConnectionManager.ensureConnected();
+
+export function useStreamingConnection() {
+  const { state } = useContext(StreamingConnectionContext);
+
+  return {
+    state,
+    isConnected: state === 'connected',
+    service: streamingConnectionManager.getService(),
+    ensureConnected,
+  };
+}
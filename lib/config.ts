@@ -4,15 +4,50 @@
  * Updated: 2025-10-20 - Next.js 15 compatible, no WebSocket dependencies
  */
 
+// Local mock backend (app/api/mock) so the app works without api.vedika.ai.in
+const useMockBackend = process.env.NEXT_PUBLIC_USE_MOCK_BACKEND === 'true';
+
+// Route handlers fetch from the server, where a relative URL has no origin
+const mockBackendUrl = typeof window === 'undefined'
+  ? `${process.env.MOCK_BACKEND_ORIGIN || 'http://localhost:3000'}/api/mock`
+  : '/api/mock';
+
+export const MOCK_WEBSOCKET_URL = 'mock://stream';
+
 export const config = {
   api: {
     // API endpoints by environment
     // Production: https://api.vedika.ai.in
     // Preprod: https://preprod.api.vedika.ai.in
     // UAT: https://uat.api.vedika.ai.in
-    baseUrl: process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.vedika.ai.in',
-    websocketUrl: 'wss://wa33d8dcw2.execute-api.ap-south-1.amazonaws.com/prod',
+    baseUrl: useMockBackend
+      ? mockBackendUrl
+      : process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.vedika.ai.in',
+    websocketUrl: useMockBackend
+      ? MOCK_WEBSOCKET_URL
+      : 'wss://wa33d8dcw2.execute-api.ap-south-1.amazonaws.com/prod',
+    // Same-origin SSE proxy used when wss:// is blocked (e.g. corporate proxies)
+    streamFallbackUrl: '/api/chat/stream',
     timeout: parseInt(process.env.NEXT_PUBLIC_API_TIMEOUT || '30000'),
+    // Extra attempts for requests that are safe to repeat (see lib/services/httpClient.ts)
+    retries: parseInt(process.env.NEXT_PUBLIC_API_RETRIES || '2'),
+    retryBaseDelayMs: parseInt(process.env.NEXT_PUBLIC_API_RETRY_DELAY_MS || '500'),
+  },
+  streaming: {
+    // Application-level ping so API Gateway idle timeouts never close a quiet socket. Off (0) by default:
+    // only the mock backend has a ping route; a gateway without one answers every ping with an error frame
+    heartbeatIntervalMs: parseInt(process.env.NEXT_PUBLIC_STREAM_HEARTBEAT_MS || (useMockBackend ? '25000' : '0')),
+    // Nothing received (not even a pong) for this long = half-open connection, reconnect
+    staleConnectionMs: parseInt(process.env.NEXT_PUBLIC_STREAM_STALE_MS || '60000'),
+    // Give up on a request when no stream_start arrives within this window
+    streamStartTimeoutMs: parseInt(process.env.NEXT_PUBLIC_STREAM_START_TIMEOUT_MS || '20000'),
+    // Keep a trace of every streamed reply so it can be downloaded and replayed on /dev/replay
+    recordTraces: process.env.NEXT_PUBLIC_STREAM_RECORDING === 'true',
+  },
+  mock: {
+    enabled: useMockBackend,
+    // Delay between scripted content_chunk events
+    chunkDelayMs: parseInt(process.env.NEXT_PUBLIC_MOCK_CHUNK_DELAY_MS || '30'),
   },
   app: {
     environment: process.env.NEXT_PUBLIC_ENVIRONMENT || 'development',
@@ -29,6 +64,7 @@ export const config = {
 console.log('🔧 Config loaded:', {
   baseUrl: config.api.baseUrl,
   websocketUrl: config.api.websocketUrl,
+  mockBackend: config.mock.enabled,
   environment: config.app.environment,
 });
 
@@ -0,0 +1,504 @@
+/**
+ * Mock Backend (server-only)
+ * In-memory stand-in for api.vedika.ai.in behind the app/api/mock routes.
+ * Enable with NEXT_PUBLIC_USE_MOCK_BACKEND=true; state lasts until the dev server restarts.
+ */
+
+import { NextResponse } from 'next/server';
+import config from '../config';
+import type { ChatStartRequest, ChatStartResponse } from '../services/apiService';
+import type { Model } from '../services/routingApi';
+import type { StreamEvent } from '../services/streamEvents';
+import type {
+  CoinsBalance,
+  Conversation,
+  ConversationDetail,
+  ConversationPageParams,
+  UpdateConversationRequest,
+  ForkConversationRequest,
+  ForkConversationResponse,
+  ListConversationsResponse,
+  Message,
+} from '../types/api';
+
+export interface MockDeviceSession {
+  session_id: string;
+  device_id: string;
+  expires_at: string;
+  max_conversations: number;
+  plan: string;
+  daily_credits: number;
+  credits_remaining: number;
+  message: string;
+}
+
+interface MockConversation {
+  conversation: Conversation;
+  messages: Message[];
+  device_id: string;
+  pending_reply?: string; // Question waiting for its stream_chat
+}
+
+interface MockState {
+  sessions: Map<string, MockDeviceSession>;
+  conversations: Map<string, MockConversation>;
+  coins: Map<string, number>; // By device
+  preferences: Map<string, string>; // Model override by device
+  starts: Map<string, ChatStartResponse>; // By Idempotency-Key
+}
+
+/**
+ * Error with the HTTP status the real backend would answer with
+ */
+export class MockBackendError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'MockBackendError';
+  }
+}
+
+/**
+ * Wrap a mock route handler: 404 unless mock mode is on, and errors answered the way the backend does
+ */
+export function mockRoute<Args extends unknown[]>(handler: (...args: Args) => unknown) {
+  return async (...args: Args): Promise<Response> => {
+    if (!config.mock.enabled) {
+      return NextResponse.json({ error: 'Not Found', message: 'Mock backend is disabled' }, { status: 404 });
+    }
+    try {
+      const result = await handler(...args);
+      return result instanceof Response ? result : NextResponse.json(result ?? { success: true });
+    } catch (error) {
+      const status = error instanceof MockBackendError ? error.status : 500;
+      console.error('❌ [MockBackend] Request failed:', error);
+      return NextResponse.json(
+        { error: 'Mock Backend Error', message: error instanceof Error ? error.message : 'Unknown error' },
+        { status }
+      );
+    }
+  };
+}
+
+const DAILY_CREDITS = 100;
+const COINS_PER_MESSAGE = 2;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const MOCK_MODELS: Model[] = [
+  {
+    id: 'mock-fast',
+    name: 'Mock Fast',
+    description: 'Short scripted answers',
+    speed: 'fast',
+    cost: 'low',
+    best_for: 'Trying out the UI',
+  },
+  {
+    id: 'mock-detailed',
+    name: 'Mock Detailed',
+    description: 'Long scripted answers with code and sources',
+    speed: 'medium',
+    cost: 'medium',
+    best_for: 'Exercising markdown, citations and long streams',
+  },
+];
+
+// Kept on globalThis so hot reloads in `next dev` don't wipe the conversations
+const globalForMock = globalThis as typeof globalThis & { __vedikaMockBackend?: MockState };
+
+function getState(): MockState {
+  if (!globalForMock.__vedikaMockBackend) {
+    globalForMock.__vedikaMockBackend = {
+      sessions: new Map(),
+      conversations: new Map(),
+      coins: new Map(),
+      preferences: new Map(),
+      starts: new Map(),
+    };
+  }
+  return globalForMock.__vedikaMockBackend;
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+function getCoins(deviceId: string): number {
+  const { coins } = getState();
+  if (!coins.has(deviceId)) coins.set(deviceId, DAILY_CREDITS);
+  return coins.get(deviceId)!;
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+export function createDeviceSession(deviceId: string): MockDeviceSession {
+  const session: MockDeviceSession = {
+    session_id: createId('mock-session'),
+    device_id: deviceId,
+    expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    max_conversations: 50,
+    plan: 'free',
+    daily_credits: DAILY_CREDITS,
+    credits_remaining: getCoins(deviceId),
+    message: 'Mock device session created',
+  };
+  getState().sessions.set(session.session_id, session);
+  console.log('🧪 [MockBackend] Device session created:', session.session_id);
+  return session;
+}
+
+export function validateDeviceSession(sessionId: string): MockDeviceSession | null {
+  const session = getState().sessions.get(sessionId);
+  if (!session || new Date(session.expires_at).getTime() < Date.now()) return null;
+  return { ...session, credits_remaining: getCoins(session.device_id), message: 'Session is valid' };
+}
+
+// ---------------------------------------------------------------------------
+// Chat
+// ---------------------------------------------------------------------------
+
+export function startChat(request: ChatStartRequest, idempotencyKey?: string | null): ChatStartResponse {
+  if (!request.message?.trim()) {
+    throw new MockBackendError('Message is required', 400);
+  }
+
+  // Like the real backend: a session it doesn't know (e.g. after a dev server restart) is a 401
+  if (!validateDeviceSession(request.session_id)) {
+    throw new MockBackendError('Session expired or invalid', 401);
+  }
+
+  // A retried start answers with the first response instead of charging again
+  const previous = idempotencyKey ? getState().starts.get(idempotencyKey) : undefined;
+  if (previous) {
+    console.log('🧪 [MockBackend] Repeated start, not charging again:', idempotencyKey);
+    return previous;
+  }
+
+  const deviceId = request.device_id || 'mock-device';
+  const remaining = getCoins(deviceId);
+  if (remaining < COINS_PER_MESSAGE) {
+    throw new MockBackendError('Vedika coins exhausted for today', 402);
+  }
+  getState().coins.set(deviceId, remaining - COINS_PER_MESSAGE);
+
+  const preferred = getState().preferences.get(deviceId);
+  const model = MOCK_MODELS.find(candidate => candidate.id === request.model_id)
+    ?? MOCK_MODELS.find(candidate => candidate.id === preferred)
+    ?? (request.message.length > 80 ? MOCK_MODELS[1] : MOCK_MODELS[0]);
+
+  const now = new Date().toISOString();
+  const conversationId = createId('mock-conv');
+  getState().conversations.set(conversationId, {
+    conversation: {
+      conversation_id: conversationId,
+      title: request.message.slice(0, 60),
+      model: model.id,
+      created_at: now,
+      updated_at: now,
+      message_count: 1,
+      total_tokens: 0,
+      session_type: request.request_type || 'anonymous',
+      plan: 'free',
+    },
+    messages: [{ message_id: createId('msg'), role: 'user', content: request.message, timestamp: now }],
+    device_id: deviceId,
+    pending_reply: request.message,
+  });
+
+  console.log('🧪 [MockBackend] Conversation started:', conversationId, model.id);
+  const response: ChatStartResponse = {
+    conversation_id: conversationId,
+    model: model.id,
+    model_name: model.name,
+    transaction_id: createId('mock-txn'),
+    vedika_coins_remaining: remaining - COINS_PER_MESSAGE,
+    vedika_coins_used: COINS_PER_MESSAGE,
+    status: 'conversation_created',
+    message: 'Conversation created',
+    websocket_route: 'stream_chat',
+    routing: {
+      selected_model: model.id,
+      reason: request.model_id && request.model_id !== 'best' ? 'User selected' : 'Mock routing by message length',
+      confidence: 0.9,
+    },
+  };
+  if (idempotencyKey) getState().starts.set(idempotencyKey, response);
+  return response;
+}
+
+/**
+ * Split text into token-sized pieces, keeping the whitespace so they join back exactly
+ */
+function toChunks(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function createReply(question: string, model: string): { text: string; citations: unknown[] } {
+  const lower = question.toLowerCase();
+
+  if (lower.includes('code')) {
+    return {
+      text: [
+        `Here is a small example for **"${question}"**:`,
+        '',
+        '```ts',
+        'export function greet(name: string): string {',
+        '  return `Hello, ${name}!`;',
+        '}',
+        '```',
+        '',
+        'Call `greet()` with any name. This answer comes from the mock backend.',
+      ].join('\n'),
+      citations: [],
+    };
+  }
+
+  const sentences = model === 'mock-detailed' ? 6 : 2;
+  const body = Array.from({ length: sentences }, (_, i) =>
+    `Point ${i + 1}: the mock backend streams this answer chunk by chunk so the UI can be exercised offline [${(i % 2) + 1}].`
+  ).join(' ');
+
+  return {
+    text: [
+      `You asked: *${question}*`,
+      '',
+      body,
+      '',
+      '| Feature | Mocked |',
+      '| --- | --- |',
+      '| Sessions | Yes |',
+      '| Streaming | Yes |',
+      '',
+      '- Ask for **code** to see a code block',
+      '- Include **error** in the question to see a failed stream',
+    ].join('\n'),
+    citations: [
+      { url: 'https://nextjs.org/docs', title: 'Next.js Documentation', snippet: 'Route handlers and the app router.' },
+      { url: 'https://developer.mozilla.org/en-US/docs/Web/API/WebSocket', title: 'WebSocket - MDN' },
+    ],
+  };
+}
+
+/**
+ * The events a stream_chat for this conversation produces. The answer is saved to the
+ * conversation right away, so history shows it even if the client cancels.
+ */
+export function createStreamScript(conversationId: string): StreamEvent[] {
+  const entry = getState().conversations.get(conversationId);
+  if (!entry) {
+    return [{ type: 'stream_error', conversation_id: conversationId, error: 'Conversation not found' }];
+  }
+
+  const question = entry.pending_reply;
+  if (!question) {
+    return [{ type: 'stream_error', conversation_id: conversationId, error: 'Nothing to stream for this conversation' }];
+  }
+  entry.pending_reply = undefined;
+
+  const model = entry.conversation.model;
+  const events: StreamEvent[] = [{ type: 'stream_start', conversation_id: conversationId, model }];
+
+  if (question.toLowerCase().includes('error')) {
+    events.push({ type: 'stream_error', conversation_id: conversationId, error: 'Scripted error from the mock backend' });
+    return events;
+  }
+
+  const { text, citations } = createReply(question, model);
+  const chunks = toChunks(text);
+  chunks.forEach((content, index) => {
+    events.push({ type: 'content_chunk', conversation_id: conversationId, content, chunk_id: index });
+  });
+
+  const inputTokens = toChunks(question).length;
+  const outputTokens = chunks.length;
+  const remaining = getCoins(entry.device_id);
+  events.push({
+    type: 'stream_complete',
+    conversation_id: conversationId,
+    full_response: text,
+    total_chunks: chunks.length,
+    tokens: inputTokens + outputTokens,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    citations,
+    credits: { remaining, daily_total: DAILY_CREDITS, used_today: DAILY_CREDITS - remaining },
+  });
+
+  const now = new Date().toISOString();
+  entry.messages.push({ message_id: createId('msg'), role: 'assistant', content: text, timestamp: now, tokens_used: outputTokens });
+  entry.conversation = {
+    ...entry.conversation,
+    updated_at: now,
+    message_count: entry.messages.length,
+    total_tokens: entry.conversation.total_tokens + inputTokens + outputTokens,
+  };
+
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// Conversations
+// ---------------------------------------------------------------------------
+
+// Cursors are opaque to the client: the sort key of the last conversation on the page
+function encodeCursor(conversation: Conversation): string {
+  return Buffer.from(`${conversation.updated_at}|${conversation.conversation_id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { updated_at: string; conversation_id: string } {
+  const [updated_at, conversation_id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  if (!updated_at || !conversation_id) throw new MockBackendError('Invalid cursor', 400);
+  return { updated_at, conversation_id };
+}
+
+export function listConversations(
+  deviceId: string | null,
+  limit: number,
+  page: ConversationPageParams = {}
+): ListConversationsResponse {
+  const conversations = Array.from(getState().conversations.values())
+    .filter(entry => !deviceId || entry.device_id === deviceId)
+    .map(entry => entry.conversation)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at) || b.conversation_id.localeCompare(a.conversation_id));
+
+  // Keyset paging, so conversations updated while the user scrolls don't shift later pages
+  let start = Math.max(0, page.offset ?? 0);
+  if (page.cursor) {
+    const after = decodeCursor(page.cursor);
+    const index = conversations.findIndex(conversation =>
+      conversation.updated_at < after.updated_at ||
+      (conversation.updated_at === after.updated_at && conversation.conversation_id < after.conversation_id)
+    );
+    start = index === -1 ? conversations.length : index;
+  }
+
+  const pageItems = conversations.slice(start, start + limit);
+  const hasMore = start + pageItems.length < conversations.length;
+
+  return {
+    conversations: pageItems,
+    total: conversations.length,
+    owner_type: 'device',
+    owner_id: deviceId || 'mock-device',
+    next_cursor: hasMore && pageItems.length > 0 ? encodeCursor(pageItems[pageItems.length - 1]) : null,
+    has_more: hasMore,
+  };
+}
+
+export function getConversation(conversationId: string): ConversationDetail {
+  const entry = getState().conversations.get(conversationId);
+  if (!entry) throw new MockBackendError('Conversation not found', 404);
+  return {
+    conversation_id: conversationId,
+    title: entry.conversation.title,
+    pinned: entry.conversation.pinned,
+    archived: entry.conversation.archived,
+    messages: entry.messages,
+    total: entry.messages.length,
+  };
+}
+
+// Renaming, pinning and archiving don't count as activity, so updated_at stays put
+export function updateConversation(conversationId: string, request: UpdateConversationRequest): Conversation {
+  const entry = getState().conversations.get(conversationId);
+  if (!entry) throw new MockBackendError('Conversation not found', 404);
+
+  const { title, pinned, archived } = request;
+  if (title !== undefined && !title.trim()) throw new MockBackendError('Title cannot be empty', 400);
+
+  entry.conversation = {
+    ...entry.conversation,
+    ...(title !== undefined && { title: title.trim() }),
+    ...(pinned !== undefined && { pinned }),
+    ...(archived !== undefined && { archived }),
+  };
+  return entry.conversation;
+}
+
+export function deleteConversation(conversationId: string): void {
+  if (!getState().conversations.delete(conversationId)) {
+    throw new MockBackendError('Conversation not found', 404);
+  }
+}
+
+export function forkConversation(conversationId: string, request: ForkConversationRequest): ForkConversationResponse {
+  const parent = getState().conversations.get(conversationId);
+  if (!parent) throw new MockBackendError('Conversation not found', 404);
+
+  const now = new Date().toISOString();
+  const forkId = createId('mock-conv');
+  const messages: Message[] = request.messages.map(message => ({ ...message, message_id: createId('msg') }));
+  const title = request.title || `${parent.conversation.title} (fork)`;
+
+  getState().conversations.set(forkId, {
+    conversation: {
+      ...parent.conversation,
+      conversation_id: forkId,
+      title,
+      created_at: now,
+      updated_at: now,
+      message_count: messages.length,
+      parent_conversation_id: conversationId,
+      forked_from_message_id: request.up_to_message_id,
+    },
+    messages,
+    device_id: request.device_id || parent.device_id,
+  });
+
+  return {
+    conversation_id: forkId,
+    parent_conversation_id: conversationId,
+    forked_from_message_id: request.up_to_message_id,
+    title,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Coins and routing
+// ---------------------------------------------------------------------------
+
+export function getCoinsBalance(deviceId: string): CoinsBalance {
+  const remaining = getCoins(deviceId);
+  const used = DAILY_CREDITS - remaining;
+  return {
+    balance: remaining,
+    available: remaining,
+    locked: 0,
+    expiring_soon: 0,
+    total_earned: DAILY_CREDITS,
+    total_spent: used,
+    plan: 'free',
+    daily_credits: DAILY_CREDITS,
+    credits_used: used,
+    credits_remaining: remaining,
+  };
+}
+
+export function getModelPreference(deviceId: string) {
+  const preferred = getState().preferences.get(deviceId) ?? null;
+  return {
+    has_preference: preferred !== null,
+    preference_type: preferred ? 'user_override' as const : 'auto_select' as const,
+    preferred_model: preferred,
+    usage_count: listConversations(deviceId, Number.MAX_SAFE_INTEGER).total,
+    available_models: MOCK_MODELS,
+    total_models: MOCK_MODELS.length,
+  };
+}
+
+export function setModelPreference(deviceId: string, modelId: string | null) {
+  if (modelId === null) {
+    getState().preferences.delete(deviceId);
+    return { success: true, message: 'Reset to auto-select', current_preference: null };
+  }
+  if (!MOCK_MODELS.some(model => model.id === modelId)) {
+    throw new MockBackendError(`Unknown model: ${modelId}`, 400);
+  }
+  getState().preferences.set(deviceId, modelId);
+  return {
+    success: true,
+    message: 'Preference saved',
+    current_preference: { model_id: modelId, preference_type: 'user_override' },
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Upstream Stream Proxy (server-only)
+ * Opens a WebSocket from the Next.js server to the API Gateway streaming endpoint
+ * and hands every event to the caller. Used by routes that re-emit the stream over HTTP.
+ */
+
+import NodeWebSocket from 'ws';
+import config, { MOCK_WEBSOCKET_URL } from '../config';
+import { createStreamingSocket } from '../services/streamingSocket';
+import { parseStreamEvent, type StreamEvent } from '../services/streamEvents';
+
+export interface UpstreamStreamRequest {
+  routeKey: string;
+  conversation_id: string;
+  device_id: string;
+  session_id: string;
+  request_type: string;
+  [key: string]: unknown;
+}
+
+interface UpstreamStreamOptions {
+  onEvent: (event: StreamEvent) => void;
+  signal?: AbortSignal;
+  socket?: WebSocket; // Already open, from connectUpstream(); a new one is opened otherwise
+}
+
+// Events after which the upstream socket has nothing more to say
+const TERMINAL_EVENTS = new Set(['stream_complete', 'stream_error', 'stream_cancelled']);
+
+// Give up if the upstream goes quiet for this long
+const UPSTREAM_IDLE_TIMEOUT_MS = 60000;
+const UPSTREAM_CONNECT_TIMEOUT_MS = 10000;
+
+// Node 20 has no global WebSocket, so the server connects with the ws package (same browser-style API)
+function openSocket(url: string): WebSocket {
+  if (url === MOCK_WEBSOCKET_URL) {
+    return createStreamingSocket(url);
+  }
+  const socket = new NodeWebSocket(url);
+  // ws throws an 'error' event nobody listens for (e.g. close() during the handshake), which would
+  // crash the server; the onerror handlers below come and go, so keep one listener for the socket's life
+  socket.on('error', (error) => {
+    console.warn('⚠️ [Upstream] WebSocket error:', error.message);
+  });
+  return socket as unknown as WebSocket;
+}
+
+/**
+ * Open the upstream socket without sending anything, so a route can check that streaming is reachable
+ * before starting a chat (which costs coins). Pass the socket on to openUpstreamStream().
+ */
+export function connectUpstream(): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = openSocket(config.api.websocketUrl);
+    const timer = setTimeout(() => {
+      ws.onopen = null;
+      ws.close();
+      reject(new Error('Upstream WebSocket connection timed out'));
+    }, UPSTREAM_CONNECT_TIMEOUT_MS);
+
+    ws.onopen = () => {
+      clearTimeout(timer);
+      ws.onopen = null;
+      resolve(ws);
+    };
+    ws.onerror = () => {
+      // Also fires after the timeout's close(); the promise has settled by then
+      clearTimeout(timer);
+      reject(new Error('Upstream WebSocket connection failed'));
+    };
+  });
+}
+
+/**
+ * Send one streaming request upstream and relay its events until the stream ends.
+ * Aborting the signal forwards a cancel_stream to the backend before closing.
+ */
+export function openUpstreamStream(
+  request: UpstreamStreamRequest,
+  { onEvent, signal, socket }: UpstreamStreamOptions
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    console.log('🔌 [Upstream] Opening stream for conversation:', request.conversation_id);
+    const ws = socket ?? openSocket(config.api.websocketUrl);
+    let settled = false;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      if (idleTimer) clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', handleAbort);
+      // Instance constants: the socket is a ws or mock socket, not the DOM class
+      if (ws.readyState === ws.OPEN || ws.readyState === ws.CONNECTING) {
+        ws.close();
+      }
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const resetIdleTimer = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        finish(new Error('Upstream stream went idle'));
+      }, UPSTREAM_IDLE_TIMEOUT_MS);
+    };
+
+    const handleAbort = () => {
+      console.log('⏹️ [Upstream] Client went away, cancelling stream:', request.conversation_id);
+      if (ws.readyState === ws.OPEN) {
+        ws.send(JSON.stringify({
+          routeKey: 'cancel_stream',
+          conversation_id: request.conversation_id,
+          device_id: request.device_id,
+          session_id: request.session_id,
+          request_type: request.request_type,
+        }));
+      }
+      finish();
+    };
+
+    if (signal?.aborted) {
+      finish();
+      return;
+    }
+    // A socket from connectUpstream() may have closed while the caller was busy; its onclose has already fired
+    if (ws.readyState === ws.CLOSING || ws.readyState === ws.CLOSED) {
+      finish(new Error('Upstream WebSocket closed before the request was sent'));
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    const sendRequest = () => {
+      resetIdleTimer();
+      ws.send(JSON.stringify(request));
+    };
+    // Armed before the open too, so a socket that never opens can't hold the response forever
+    resetIdleTimer();
+    if (ws.readyState === ws.OPEN) {
+      sendRequest();
+    } else {
+      ws.onopen = sendRequest;
+    }
+
+    ws.onmessage = (event) => {
+      if (settled) return;
+      resetIdleTimer();
+      const result = parseStreamEvent(typeof event.data === 'string' ? event.data : String(event.data));
+      if (!result.ok) {
+        console.error('❌ [Upstream] Dropping invalid message:', result.error.message, result.error.issues);
+        return;
+      }
+
+      const data = result.event;
+      if (data.type === 'connection_established') return;
+
+      onEvent(data);
+      if (TERMINAL_EVENTS.has(data.type)) {
+        finish();
+      }
+    };
+
+    ws.onerror = () => {
+      finish(new Error('Upstream WebSocket connection failed'));
+    };
+
+    ws.onclose = () => {
+      // Closed without a terminal event - the client treats the missing end as an interruption
+      finish();
+    };
+  });
+}
@@ -4,83 +4,66 @@
  */
 
 import config from '../config';
+import { httpClient, type HttpRequestOptions } from './httpClient';
+import { ServiceError, readServiceError, toServiceError } from './serviceErrors';
 import { getOrCreateDeviceSession } from '../utils/session';
 import type {
   ChatRequest,
   ChatResponse,
   ListConversationsRequest,
+  ConversationPageParams,
   ListConversationsResponse,
   GetConversationRequest,
   ConversationDetail,
   DeleteConversationRequest,
+  ForkConversationRequest,
+  ForkConversationResponse,
+  Conversation,
+  ConversationUpdate,
+  UpdateConversationRequest,
+  Message,
   CoinsBalance,
   CoinsTransaction,
   APIResponse,
-  APIError,
 } from '../types/api';
 
 class APIService {
   private baseUrl: string;
-  private timeout: number;
 
   constructor() {
     this.baseUrl = config.api.baseUrl;
-    this.timeout = config.api.timeout;
   }
 
   /**
-   * Generic fetch wrapper with error handling
+   * Generic fetch wrapper: timeout and retries come from httpClient
    */
   private async fetchWithTimeout(
     url: string,
-    options: RequestInit = {}
+    options: HttpRequestOptions = {}
   ): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      });
-
-      clearTimeout(timeoutId);
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
-    }
+    return httpClient.request(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
   }
 
   /**
-   * Handle API response and errors
+   * Handle API response and errors (failures become typed ServiceErrors)
    */
   private async handleResponse<T>(response: Response): Promise<APIResponse<T>> {
+    if (!response.ok) {
+      return { success: false, error: await readServiceError(response, 'An error occurred') };
+    }
+
     try {
       const data = await response.json();
-
-      if (!response.ok) {
-        const error: APIError = {
-          error: data.error || 'API Error',
-          message: data.message || data.detail || 'An error occurred',
-          status_code: response.status,
-          details: data.details || data,
-        };
-        return { success: false, error };
-      }
-
       return { success: true, data };
     } catch (error) {
-      const apiError: APIError = {
-        error: 'Parse Error',
-        message: error instanceof Error ? error.message : 'Failed to parse response',
-        status_code: response.status,
-      };
-      return { success: false, error: apiError };
+      const message = error instanceof Error ? error.message : 'Failed to parse response';
+      return { success: false, error: new ServiceError('invalid_response', message, response.status) };
     }
   }
 
@@ -127,14 +110,7 @@ class APIService {
 
       return this.handleResponse<ChatResponse>(response);
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          error: 'Network Error',
-          message: error instanceof Error ? error.message : 'Failed to send message',
-          status_code: 0,
-        },
-      };
+      return { success: false, error: toServiceError(error, 'Failed to send message') };
     }
   }
 
@@ -165,14 +141,7 @@ class APIService {
 
       return this.handleResponse<ConversationDetail>(response);
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          error: 'Network Error',
-          message: error instanceof Error ? error.message : 'Failed to get conversation',
-          status_code: 0,
-        },
-      };
+      return { success: false, error: toServiceError(error, 'Failed to get conversation') };
     }
   }
 
@@ -181,7 +150,8 @@ class APIService {
    */
   async listConversations(
     limit: number = 50,
-    userId?: string
+    userId?: string,
+    page: ConversationPageParams = {}
   ): Promise<APIResponse<ListConversationsResponse>> {
     try {
       const session = getOrCreateDeviceSession();
@@ -198,20 +168,19 @@ class APIService {
         params.append('session_id', session.session_id);
       }
 
+      if (page.cursor) {
+        params.append('cursor', page.cursor);
+      } else if (page.offset) {
+        params.append('offset', page.offset.toString());
+      }
+
       const response = await this.fetchWithTimeout(
         `${this.baseUrl}/ai/conversations?${params}`
       );
 
       return this.handleResponse<ListConversationsResponse>(response);
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          error: 'Network Error',
-          message: error instanceof Error ? error.message : 'Failed to list conversations',
-          status_code: 0,
-        },
-      };
+      return { success: false, error: toServiceError(error, 'Failed to list conversations') };
     }
   }
 
@@ -245,17 +214,101 @@ class APIService {
 
       return this.handleResponse<void>(response);
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          error: 'Network Error',
-          message: error instanceof Error ? error.message : 'Failed to delete conversation',
-          status_code: 0,
-        },
+      return { success: false, error: toServiceError(error, 'Failed to delete conversation') };
+    }
+  }
+
+  /**
+   * Fork a conversation: a new conversation seeded with the history up to one message
+   */
+  async forkConversation(
+    conversationId: string,
+    upToMessageId: string,
+    messages: Message[],
+    title?: string,
+    userId?: string
+  ): Promise<APIResponse<ForkConversationResponse>> {
+    try {
+      const session = getOrCreateDeviceSession();
+
+      const body: ForkConversationRequest = {
+        up_to_message_id: upToMessageId,
+        messages: messages.map(({ role, content, timestamp }) => ({ role, content, timestamp })),
+        title,
+        request_type: userId ? 'authenticated' : 'anonymous',
+        ...(userId
+          ? { user_id: userId }
+          : { device_id: session.device_id, session_id: session.session_id }),
       };
+
+      const response = await this.fetchWithTimeout(
+        `${this.baseUrl}/ai/conversations/${conversationId}/fork`,
+        {
+          method: 'POST',
+          body: JSON.stringify(body),
+        }
+      );
+
+      return this.handleResponse<ForkConversationResponse>(response);
+    } catch (error) {
+      return { success: false, error: toServiceError(error, 'Failed to fork conversation') };
+    }
+  }
+
+  /**
+   * Change a conversation's title, pin or archive state
+   */
+  async updateConversation(
+    conversationId: string,
+    changes: ConversationUpdate,
+    userId?: string
+  ): Promise<APIResponse<Conversation>> {
+    try {
+      const session = getOrCreateDeviceSession();
+
+      const body: UpdateConversationRequest = {
+        ...changes,
+        request_type: userId ? 'authenticated' : 'anonymous',
+        ...(userId
+          ? { user_id: userId }
+          : { device_id: session.device_id, session_id: session.session_id }),
+      };
+
+      const response = await this.fetchWithTimeout(
+        `${this.baseUrl}/ai/conversations/${conversationId}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify(body),
+        }
+      );
+
+      return this.handleResponse<Conversation>(response);
+    } catch (error) {
+      return { success: false, error: toServiceError(error, 'Failed to update conversation') };
     }
   }
 
+  /**
+   * Rename a conversation
+   */
+  async renameConversation(conversationId: string, title: string, userId?: string): Promise<APIResponse<Conversation>> {
+    return this.updateConversation(conversationId, { title }, userId);
+  }
+
+  /**
+   * Pin a conversation to the top of the lists, or unpin it
+   */
+  async pinConversation(conversationId: string, pinned: boolean, userId?: string): Promise<APIResponse<Conversation>> {
+    return this.updateConversation(conversationId, { pinned }, userId);
+  }
+
+  /**
+   * Archive a conversation (hidden from the sidebar), or restore it
+   */
+  async archiveConversation(conversationId: string, archived: boolean, userId?: string): Promise<APIResponse<Conversation>> {
+    return this.updateConversation(conversationId, { archived }, userId);
+  }
+
   /**
    * Get coins balance for user or device
    */
@@ -289,14 +342,7 @@ class APIService {
       return result;
     } catch (error) {
       console.error('❌ [API] Error fetching coins balance:', error);
-      return {
-        success: false,
-        error: {
-          error: 'Network Error',
-          message: error instanceof Error ? error.message : 'Failed to get coins balance',
-          status_code: 0,
-        },
-      };
+      return { success: false, error: toServiceError(error, 'Failed to get coins balance') };
     }
   }
 
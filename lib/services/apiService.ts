@@ -1,5 +1,10 @@
 // API Service for Chat Operations
 
+import config from '../config';
+import { httpClient, createIdempotencyKey } from './httpClient';
+import { readServiceError } from './serviceErrors';
+import type { ChatRequest, ChatResponse } from '../types/api';
+
 export interface ChatStartResponse {
   conversation_id: string;
   model: string;
@@ -26,19 +31,20 @@ export interface ChatStartRequest {
   interaction_mode?: 'type' | 'dictation' | 'voice';
 }
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.vedika.ai.in';
+const API_BASE_URL = config.api.baseUrl;
 
 /**
  * Step 1: Start a conversation and get conversation_id immediately
+ * This deducts coins, so it carries an Idempotency-Key: pass the same key when sending the same
+ * message again (e.g. from the outbox) and the backend starts it only once
  */
 export const startChatConversation = async (
-  request: ChatStartRequest
+  request: ChatStartRequest,
+  idempotencyKey: string = createIdempotencyKey()
 ): Promise<ChatStartResponse> => {
-  const response = await fetch(`${API_BASE_URL}/ai/chat/start`, {
+  const response = await httpClient.request(`${API_BASE_URL}/ai/chat/start`, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    idempotencyKey,
     body: JSON.stringify({
       message: request.message,
       session_id: request.session_id,
@@ -50,8 +56,28 @@ export const startChatConversation = async (
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to start conversation');
+    throw await readServiceError(response, 'Failed to start conversation');
+  }
+
+  return await response.json();
+};
+
+/**
+ * Ask for a whole reply in one response (no streaming). Used where the WebSocket stream can't be reached.
+ * Like /ai/chat/start this deducts coins, so it carries an Idempotency-Key too
+ */
+export const sendChatMessage = async (
+  request: ChatRequest,
+  idempotencyKey: string = createIdempotencyKey()
+): Promise<ChatResponse> => {
+  const response = await httpClient.request(`${API_BASE_URL}/ai/chat`, {
+    method: 'POST',
+    idempotencyKey,
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    throw await readServiceError(response, 'Failed to send message');
   }
 
   return await response.json();
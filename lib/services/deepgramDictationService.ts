@@ -5,6 +5,7 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { config } from '@/lib/config';
+import { httpClient } from '@/lib/services/httpClient';
 
 export interface DeepgramDictationService {
   isListening: boolean;
@@ -81,7 +82,7 @@ export const useDeepgramDictation = (): DeepgramDictationService => {
       console.log('🎤 Starting Deepgram transcription...');
       
       // 1. Get Deepgram API key from backend
-      const response = await fetch(`${config.api.baseUrl}/deepgram/token`);
+      const response = await httpClient.request(`${config.api.baseUrl}/deepgram/token`);
       const data = await response.json();
       
       if (!data.apiKey) {
@@ -298,7 +299,7 @@ export const useDeepgramDictation = (): DeepgramDictationService => {
     reconnectTimeoutRef.current = setTimeout(async () => {
       try {
         // Get fresh API key
-        const response = await fetch(`${config.api.baseUrl}/deepgram/token`);
+        const response = await httpClient.request(`${config.api.baseUrl}/deepgram/token`);
         const data = await response.json();
         
         if (!data.apiKey) {
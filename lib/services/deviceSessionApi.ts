@@ -4,6 +4,8 @@
  */
 
 import config from '../config';
+import { httpClient } from './httpClient';
+import { NetworkError, ServiceError, readServiceError, toServiceError } from './serviceErrors';
 import { DeviceManager } from '../utils/deviceManager';
 
 interface DeviceSessionResponse {
@@ -32,8 +34,9 @@ export class DeviceSessionApi {
     console.log('🔗 Config API base URL:', config.api.baseUrl);
     
     try {
-      const response = await fetch(`${config.api.baseUrl}/auth/device-session`, {
+      const response = await httpClient.request(`${config.api.baseUrl}/auth/device-session`, {
         method: 'POST',
+        recoverSession: false, // This is the recovery
         headers: {
           'Content-Type': 'application/json'
         },
@@ -49,8 +52,7 @@ export class DeviceSessionApi {
       });
     
     if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      throw new Error(error.message || `Failed to create device session: ${response.statusText}`);
+      throw await readServiceError(response, 'Failed to create device session');
     }
     
     const data: DeviceSessionResponse = await response.json();
@@ -74,19 +76,20 @@ export class DeviceSessionApi {
       });
       
       // Check if it's a network error
-      if (error instanceof Error && error.name === 'TypeError' && error.message.includes('Failed to fetch')) {
+      if (error instanceof NetworkError) {
         console.error('❌ Network error - API endpoint not accessible');
         console.error('❌ Check if API endpoint is correct:', config.api.baseUrl);
         console.error('❌ This might be a CORS issue or the API server is down');
       }
       
-      throw error;
+      throw toServiceError(error, 'Failed to create device session');
     }
   }
   
   /**
    * Validate existing session
-   * Returns session info if valid, null if invalid/expired
+   * Returns session info if valid, null if invalid/expired;
+   * throws NetworkError/TimeoutError when the backend can't be reached
    */
   static async validateSession(): Promise<DeviceSessionResponse | null> {
     const sessionId = DeviceManager.getSessionId();
@@ -108,10 +111,11 @@ export class DeviceSessionApi {
     console.log('🔍 Config API base URL:', config.api.baseUrl);
     
     try {
-      const response = await fetch(
+      const response = await httpClient.request(
         `${config.api.baseUrl}/auth/device-session/validate?session_id=${sessionId}`,
         {
           method: 'GET',
+          recoverSession: false, // A rejected session is the answer here, not a failure
           headers: {
             'Content-Type': 'application/json'
           }
@@ -119,7 +123,8 @@ export class DeviceSessionApi {
       );
       
       if (!response.ok) {
-        console.log('❌ Session validation failed');
+        const error = await readServiceError(response, 'Session validation failed');
+        console.log('❌ Session validation failed:', error.kind);
         DeviceManager.clearSession();
         return null;
       }
@@ -137,11 +142,16 @@ export class DeviceSessionApi {
       });
       
       // Check if it's a network error
-      if (error instanceof Error && error.name === 'TypeError' && error.message.includes('Failed to fetch')) {
+      if (error instanceof NetworkError) {
         console.error('❌ Network error - API endpoint not accessible');
         console.error('❌ Check if API endpoint is correct:', config.api.baseUrl);
         console.error('❌ This might be a CORS issue or the API server is down');
       }
+
+      // Unreachable is not invalid: keep the session for when the backend is back
+      if (error instanceof ServiceError && (error.kind === 'network' || error.kind === 'timeout')) {
+        throw error;
+      }
       
       DeviceManager.clearSession();
       return null;
@@ -0,0 +1,180 @@
+/**
+ * HTTP Client
+ * The one fetch wrapper every service goes through: a timeout on each attempt, exponential-backoff
+ * retries for requests that are safe to repeat, Idempotency-Key headers for POSTs that must
+ * only take effect once (e.g. /ai/chat/start, which deducts coins), and session recovery:
+ * a request rejected with 401/403 gets a fresh device session and is replayed once.
+ */
+
+import config from '../config';
+import { NetworkError, TimeoutError } from './serviceErrors';
+
+export interface HttpRequestOptions extends RequestInit {
+  timeoutMs?: number; // Per attempt; defaults to config.api.timeout
+  retries?: number; // Extra attempts; defaults to config.api.retries for idempotent requests, 0 otherwise
+  idempotencyKey?: string; // Sent as Idempotency-Key; makes a POST safe to retry
+  recoverSession?: boolean; // Refresh the session and replay once on 401/403 (default true)
+}
+
+/**
+ * How to get a new device session when the backend rejects the current one.
+ * Registered by sessionManager, which can't be imported here (it calls the backend through this client).
+ */
+export interface SessionRecovery {
+  getSessionId: () => string | null;
+  refreshSession: () => Promise<string>; // Resolves with the new session id
+}
+
+// Methods the server must treat as repeatable (RFC 9110)
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+// Worth another attempt: the server was busy or the request never got through
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const MAX_RETRY_DELAY_MS = 10000;
+const AUTH_FAILURE_STATUSES = new Set([401, 403]);
+
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `idem-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// The session id appears in query strings and JSON bodies; swap it wherever it is
+function replaceSessionId<T>(value: T, staleSessionId: string, sessionId: string): T {
+  return typeof value === 'string' ? value.split(staleSessionId).join(sessionId) as T : value;
+}
+
+class HttpClient {
+  private sessionRecovery: SessionRecovery | null = null;
+  private pendingRecovery: Promise<string> | null = null;
+
+  setSessionRecovery(recovery: SessionRecovery | null): void {
+    this.sessionRecovery = recovery;
+  }
+
+  /**
+   * fetch() with a timeout, retries and session recovery. Resolves with the last response (check `ok`);
+   * rejects with TimeoutError or NetworkError when no attempt got a response.
+   */
+  async request(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+    const { recoverSession = true, ...sendOptions } = options;
+    const staleSessionId = this.sessionRecovery?.getSessionId() ?? null;
+    const response = await this.send(url, sendOptions);
+
+    if (!recoverSession || !this.sessionRecovery || !AUTH_FAILURE_STATUSES.has(response.status)) {
+      return response;
+    }
+
+    console.warn(`🔐 [HttpClient] ${response.status} from ${url}, refreshing the session and replaying once`);
+    let sessionId: string;
+    try {
+      sessionId = await this.recoverSession();
+    } catch (error) {
+      console.error('❌ [HttpClient] Session recovery failed:', error);
+      return response; // Report the original failure
+    }
+
+    void response.body?.cancel();
+    if (!staleSessionId || staleSessionId === sessionId) {
+      return this.send(url, sendOptions);
+    }
+    // A different payload needs its own Idempotency-Key: the backend would answer the old one with the
+    // stored 401 or reject it as a conflict. The rejected attempt charged nothing, so a new key is safe
+    return this.send(replaceSessionId(url, staleSessionId, sessionId), {
+      ...sendOptions,
+      body: replaceSessionId(sendOptions.body, staleSessionId, sessionId),
+      idempotencyKey: sendOptions.idempotencyKey ? createIdempotencyKey() : undefined,
+    });
+  }
+
+  // Requests failing together share one refresh
+  private recoverSession(): Promise<string> {
+    if (!this.pendingRecovery) {
+      this.pendingRecovery = this.sessionRecovery!.refreshSession().finally(() => {
+        this.pendingRecovery = null;
+      });
+    }
+    return this.pendingRecovery;
+  }
+
+  private async send(url: string, options: Omit<HttpRequestOptions, 'recoverSession'>): Promise<Response> {
+    const { timeoutMs = config.api.timeout, retries, idempotencyKey, headers, signal, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
+    const canRetry = IDEMPOTENT_METHODS.has(method) || Boolean(idempotencyKey);
+    const maxRetries = canRetry ? retries ?? config.api.retries : 0;
+
+    const requestHeaders = new Headers(headers);
+    if (init.body && !requestHeaders.has('Content-Type')) {
+      requestHeaders.set('Content-Type', 'application/json');
+    }
+    if (idempotencyKey) {
+      requestHeaders.set('Idempotency-Key', idempotencyKey);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let retryAfterMs: number | null = null;
+      try {
+        const response = await this.attempt(url, { ...init, method, headers: requestHeaders }, timeoutMs, signal);
+        if (!RETRYABLE_STATUSES.has(response.status) || attempt >= maxRetries) {
+          return response;
+        }
+        retryAfterMs = this.getRetryAfterMs(response);
+        void response.body?.cancel(); // Free the connection; this response is discarded
+        console.warn(`🔁 [HttpClient] ${method} ${url} returned ${response.status}, retrying`);
+      } catch (error) {
+        if (signal?.aborted || attempt >= maxRetries) throw error;
+        console.warn(`🔁 [HttpClient] ${method} ${url} failed, retrying:`, error instanceof Error ? error.message : error);
+      }
+
+      const backoffMs = Math.min(config.api.retryBaseDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+      const jitterMs = Math.random() * config.api.retryBaseDelayMs;
+      await sleep(retryAfterMs ?? backoffMs + jitterMs, signal);
+    }
+  }
+
+  private async attempt(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal | null): Promise<Response> {
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    // The timeout covers the wait for the response headers; the caller's signal stays linked after that,
+    // so aborting it still cancels a body being read (e.g. an SSE stream)
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      signal?.removeEventListener('abort', abort);
+      if (timedOut) throw new TimeoutError(`Request timed out after ${timeoutMs}ms`, 0, { url, timeout_ms: timeoutMs });
+      if (signal?.aborted) throw error; // Cancelled by the caller
+      throw new NetworkError(error instanceof Error ? error.message : 'Could not reach the server', { url });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Retry-After in seconds (429/503), capped so a misbehaving server can't stall the UI
+  private getRetryAfterMs(response: Response): number | null {
+    const seconds = Number(response.headers.get('Retry-After'));
+    return Number.isFinite(seconds) && seconds > 0 ? Math.min(seconds * 1000, MAX_RETRY_DELAY_MS) : null;
+  }
+}
+
+// Export singleton instance
+export const httpClient = new HttpClient();
+export default httpClient;
@@ -0,0 +1,77 @@
+/**
+ * In-Process WebSocket
+ * Base for sockets that live inside the app (mock backend, trace replay) instead of on the network.
+ * Implements the part of the WebSocket interface WebSocketStreamingService and the upstream proxy use.
+ */
+
+// A request frame as the client sent it; handlers check the fields they read
+export type SocketRequest = Record<string, unknown>;
+
+export abstract class InProcessWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  readonly CONNECTING = InProcessWebSocket.CONNECTING;
+  readonly OPEN = InProcessWebSocket.OPEN;
+  readonly CLOSING = InProcessWebSocket.CLOSING;
+  readonly CLOSED = InProcessWebSocket.CLOSED;
+
+  readyState: number = InProcessWebSocket.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: Event) => void) | null = null;
+
+  constructor(public readonly url: string, openDelayMs = 0) {
+    setTimeout(() => {
+      if (this.readyState !== InProcessWebSocket.CONNECTING) return;
+      this.readyState = InProcessWebSocket.OPEN;
+      this.onopen?.({ type: 'open' } as Event);
+      this.handleOpen();
+    }, openDelayMs);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== InProcessWebSocket.OPEN) {
+      throw new Error('Socket is not open');
+    }
+
+    let request: unknown;
+    try {
+      request = JSON.parse(data);
+    } catch {
+      console.error('❌ [InProcessWebSocket] Could not parse request:', data);
+      return;
+    }
+    if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+      console.error('❌ [InProcessWebSocket] Request is not an object:', data);
+      return;
+    }
+    this.handleRequest(request as SocketRequest);
+  }
+
+  /**
+   * Client-side close
+   */
+  close(): void {
+    if (this.readyState === InProcessWebSocket.CLOSED) return;
+    this.readyState = InProcessWebSocket.CLOSED;
+    this.handleClose();
+    this.onclose?.({ type: 'close' } as Event);
+  }
+
+  /**
+   * Deliver a message to the client, exactly as a server frame would arrive
+   */
+  protected deliver(raw: string): void {
+    if (this.readyState !== InProcessWebSocket.OPEN) return;
+    this.onmessage?.({ data: raw } as MessageEvent);
+  }
+
+  protected handleOpen(): void {}
+
+  protected handleClose(): void {}
+
+  protected abstract handleRequest(request: SocketRequest): void;
+}
@@ -4,6 +4,7 @@
  */
 
 import { VoiceService } from './voiceService';
+import { httpClient } from './httpClient';
 import { DeviceManager } from '../utils/deviceManager';
 
 export class InteractionService {
@@ -46,7 +47,7 @@ export class InteractionService {
 
   private async handleFinalResult(text: string): Promise<void> {
     // Send to chat API with interaction mode
-    const response = await fetch('/api/ai/chat', {
+    const response = await httpClient.request('/api/ai/chat', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -0,0 +1,138 @@
+/**
+ * Mock WebSocket
+ * In-process stand-in for the API Gateway streaming socket, used when the mock backend is enabled.
+ * stream_chat fetches the scripted events from /api/mock/ai/chat/stream and replays them with a
+ * delay per chunk; ping, cancel_stream and resume_stream behave like the real socket.
+ */
+
+import config from '../config';
+import { httpClient } from './httpClient';
+import { InProcessWebSocket, type SocketRequest } from './inProcessWebSocket';
+import type { StreamEvent } from './streamEvents';
+
+interface MockStream {
+  events: StreamEvent[];
+  next: number; // Index of the next event to send
+  timer: ReturnType<typeof setTimeout> | null;
+  owner: MockWebSocket | null;
+}
+
+// Shared by every socket instance, so a reconnected socket can resume a stream
+const streams = new Map<string, MockStream>();
+
+export class MockWebSocket extends InProcessWebSocket {
+  constructor(url: string) {
+    super(url, 50);
+  }
+
+  protected handleOpen(): void {
+    console.log('🧪 [MockWebSocket] Connected');
+    this.emit({ type: 'connection_established', connection_id: `mock-${Date.now()}`, message: 'Mock backend' });
+  }
+
+  protected handleRequest(request: SocketRequest): void {
+    if (request.routeKey === 'ping') {
+      this.emit({ type: 'pong', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const conversationId = typeof request.conversation_id === 'string' ? request.conversation_id : '';
+    switch (request.routeKey) {
+      case 'stream_chat':
+        this.startStream(conversationId);
+        break;
+      case 'cancel_stream':
+        this.cancelStream(conversationId);
+        break;
+      case 'resume_stream':
+        this.resumeStream(conversationId, typeof request.last_chunk_id === 'number' ? request.last_chunk_id : null);
+        break;
+      default:
+        console.warn('⚠️ [MockWebSocket] Unhandled routeKey:', request.routeKey);
+    }
+  }
+
+  protected handleClose(): void {
+    // Streams keep their position so the next socket can resume them
+    streams.forEach(stream => {
+      if (stream.owner !== this) return;
+      if (stream.timer) clearTimeout(stream.timer);
+      stream.timer = null;
+      stream.owner = null;
+    });
+  }
+
+  private emit(event: StreamEvent): void {
+    this.deliver(JSON.stringify(event));
+  }
+
+  private async startStream(conversationId: string): Promise<void> {
+    try {
+      const response = await httpClient.request(`${config.api.baseUrl}/ai/chat/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversation_id: conversationId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Mock stream request failed');
+
+      const stream: MockStream = { events: data.events, next: 0, timer: null, owner: this };
+      streams.set(conversationId, stream);
+      this.scheduleNext(conversationId, stream, 400); // "Thinking" before stream_start
+    } catch (error) {
+      this.emit({
+        type: 'stream_error',
+        conversation_id: conversationId,
+        error: error instanceof Error ? error.message : 'Mock stream failed',
+      });
+    }
+  }
+
+  private scheduleNext(conversationId: string, stream: MockStream, delayMs = config.mock.chunkDelayMs): void {
+    stream.timer = setTimeout(() => {
+      stream.timer = null;
+      const event = stream.events[stream.next++];
+      if (!event) return;
+      this.emit(event);
+      if (stream.next < stream.events.length) {
+        this.scheduleNext(conversationId, stream);
+      } else {
+        streams.delete(conversationId);
+      }
+    }, delayMs);
+  }
+
+  private cancelStream(conversationId: string): void {
+    const stream = streams.get(conversationId);
+    if (!stream) return;
+    if (stream.timer) clearTimeout(stream.timer);
+    streams.delete(conversationId);
+
+    const sent = stream.events.slice(0, stream.next).flatMap(event => (event.type === 'content_chunk' ? [event] : []));
+    this.emit({
+      type: 'stream_cancelled',
+      conversation_id: conversationId,
+      partial_response: sent.map(event => event.content).join(''),
+      chunks_sent: sent.length,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private resumeStream(conversationId: string, lastChunkId?: number | null): void {
+    const stream = streams.get(conversationId);
+    if (!stream) {
+      this.emit({ type: 'stream_error', conversation_id: conversationId, error: 'No stream to resume' });
+      return;
+    }
+
+    if (stream.timer) clearTimeout(stream.timer);
+    stream.owner = this;
+    // Replay everything after the last chunk the client has
+    if (typeof lastChunkId === 'number') {
+      const index = stream.events.findIndex(event => event.type === 'content_chunk' && event.chunk_id === lastChunkId);
+      if (index !== -1) stream.next = index + 1;
+    }
+    this.emit({ type: 'stream_resumed', conversation_id: conversationId, last_chunk_id: lastChunkId ?? null });
+    this.scheduleNext(conversationId, stream);
+  }
+}
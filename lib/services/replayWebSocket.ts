@@ -0,0 +1,59 @@
+/**
+ * Replay WebSocket
+ * In-process socket for replay:// URLs. Each URL belongs to a StreamReplay (lib/services/streamReplay.ts),
+ * which decides what the socket receives; every socket the service opens for it (including
+ * reconnects) is handed to that replay.
+ */
+
+import { InProcessWebSocket, type SocketRequest } from './inProcessWebSocket';
+
+export const REPLAY_URL_PREFIX = 'replay://';
+
+export interface ReplaySocketHandler {
+  onSocketOpen(socket: ReplayWebSocket): void;
+  onSocketRequest(socket: ReplayWebSocket, request: SocketRequest): void;
+  onSocketClosed(socket: ReplayWebSocket): void;
+}
+
+const handlers = new Map<string, ReplaySocketHandler>();
+
+export function registerReplayHandler(url: string, handler: ReplaySocketHandler): () => void {
+  handlers.set(url, handler);
+  return () => {
+    if (handlers.get(url) === handler) handlers.delete(url);
+  };
+}
+
+export class ReplayWebSocket extends InProcessWebSocket {
+  protected handleOpen(): void {
+    this.getHandler()?.onSocketOpen(this);
+  }
+
+  protected handleRequest(request: SocketRequest): void {
+    this.getHandler()?.onSocketRequest(this, request);
+  }
+
+  protected handleClose(): void {
+    this.getHandler()?.onSocketClosed(this);
+  }
+
+  /**
+   * Deliver a recorded message exactly as it was received
+   */
+  receive(raw: string): void {
+    this.deliver(raw);
+  }
+
+  /**
+   * Close from the "server" side, as a dropped connection would
+   */
+  drop(): void {
+    this.close();
+  }
+
+  private getHandler(): ReplaySocketHandler | undefined {
+    const handler = handlers.get(this.url);
+    if (!handler) console.warn('⚠️ [ReplayWebSocket] No replay registered for:', this.url);
+    return handler;
+  }
+}
@@ -1,3 +1,7 @@
+import config from '../config';
+import { httpClient } from './httpClient';
+import { TimeoutError, readServiceError, toServiceError } from './serviceErrors';
+
 interface Model {
   id: string;
   name: string;
@@ -34,8 +38,8 @@ class RoutingApiService {
   private baseUrl: string;
 
   constructor() {
-    // Use NEXT_PUBLIC_API_BASE_URL from environment or fallback to production API
-    this.baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.vedika.ai.in';
+    // NEXT_PUBLIC_API_BASE_URL, or the mock backend when it is enabled
+    this.baseUrl = config.api.baseUrl;
   }
 
   /**
@@ -48,25 +52,19 @@ class RoutingApiService {
       const url = '/api/models';
       console.log('🔍 Fetching models from Next.js API route:', url);
       
-      // Create timeout abort controller
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-      
-      const response = await fetch(url, {
+      const response = await httpClient.request(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
         },
-        signal: controller.signal,
+        timeoutMs: 10000,
       });
       
-      clearTimeout(timeoutId);
-      
       console.log('📡 Response status:', response.status);
       
       if (!response.ok) {
         console.error('❌ API Route Error:', response.statusText);
-        throw new Error(`Failed to fetch models: ${response.statusText}`);
+        throw await readServiceError(response, 'Failed to fetch models');
       }
       
       const data: ModelListResponse = await response.json();
@@ -80,7 +78,7 @@ class RoutingApiService {
         console.error('Error message:', error.message);
         
         // Check for specific error types
-        if (error.name === 'AbortError') {
+        if (error instanceof TimeoutError) {
           console.error('⏱️ Request timed out after 10 seconds');
         }
       }
@@ -100,18 +98,18 @@ class RoutingApiService {
       const params = new URLSearchParams({ device_id: deviceId });
       if (userId) params.append('user_id', userId);
 
-      const response = await fetch(
+      const response = await httpClient.request(
         `${this.baseUrl}/routing/stats?${params.toString()}`
       );
       
       if (!response.ok) {
-        throw new Error(`Failed to fetch user preference: ${response.statusText}`);
+        throw await readServiceError(response, 'Failed to fetch user preference');
       }
       
       return response.json();
     } catch (error) {
       console.error('Error fetching user preference:', error);
-      throw error;
+      throw toServiceError(error, 'Failed to fetch user preference');
     }
   }
 
@@ -127,7 +125,7 @@ class RoutingApiService {
       const params = new URLSearchParams({ device_id: deviceId });
       if (userId) params.append('user_id', userId);
 
-      const response = await fetch(
+      const response = await httpClient.request(
         `${this.baseUrl}/routing/preferences?${params.toString()}`,
         {
           method: 'POST',
@@ -137,13 +135,13 @@ class RoutingApiService {
       );
       
       if (!response.ok) {
-        throw new Error(`Failed to set model preference: ${response.statusText}`);
+        throw await readServiceError(response, 'Failed to set model preference');
       }
       
       return response.json();
     } catch (error) {
       console.error('Error setting model preference:', error);
-      throw error;
+      throw toServiceError(error, 'Failed to set model preference');
     }
   }
 
@@ -158,7 +156,7 @@ class RoutingApiService {
       const params = new URLSearchParams({ device_id: deviceId });
       if (userId) params.append('user_id', userId);
 
-      const response = await fetch(
+      const response = await httpClient.request(
         `${this.baseUrl}/routing/preferences?${params.toString()}`,
         {
           method: 'DELETE'
@@ -166,13 +164,13 @@ class RoutingApiService {
       );
       
       if (!response.ok) {
-        throw new Error(`Failed to reset model preference: ${response.statusText}`);
+        throw await readServiceError(response, 'Failed to reset model preference');
       }
       
       return response.json();
     } catch (error) {
       console.error('Error resetting model preference:', error);
-      throw error;
+      throw toServiceError(error, 'Failed to reset model preference');
     }
   }
 }
@@ -0,0 +1,168 @@
+/**
+ * Service Errors
+ * Typed errors for every backend call, so the UI can tell "out of coins" from "offline" without
+ * matching on message text. Each one is also an APIError (kind, status_code, details).
+ */
+
+import type { APIError, APIErrorKind } from '../types/api';
+
+const ERROR_LABELS: Record<APIErrorKind, string> = {
+  credits_exhausted: 'Credits Exhausted',
+  session_expired: 'Session Expired',
+  rate_limited: 'Rate Limited',
+  model_unavailable: 'Model Unavailable',
+  network: 'Network Error',
+  timeout: 'Timeout',
+  not_found: 'Not Found',
+  invalid_request: 'Invalid Request',
+  invalid_response: 'Parse Error',
+  server: 'Server Error',
+  unknown: 'API Error',
+};
+
+export class ServiceError extends Error implements APIError {
+  readonly error: string;
+
+  constructor(
+    readonly kind: APIErrorKind,
+    message: string,
+    readonly status_code: number = 0,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+    this.error = ERROR_LABELS[kind];
+  }
+
+  // Worth trying the same request again as is
+  get isRetryable(): boolean {
+    return ['rate_limited', 'network', 'timeout', 'server'].includes(this.kind);
+  }
+}
+
+export class CreditsExhaustedError extends ServiceError {
+  constructor(message = 'You have run out of Vedika coins', status = 402, details?: Record<string, unknown>) {
+    super('credits_exhausted', message, status, details);
+    this.name = 'CreditsExhaustedError';
+  }
+}
+
+export class SessionExpiredError extends ServiceError {
+  constructor(message = 'Your session has expired', status = 401, details?: Record<string, unknown>) {
+    super('session_expired', message, status, details);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export class RateLimitedError extends ServiceError {
+  constructor(
+    message = 'Too many requests',
+    readonly retryAfterMs: number | null = null,
+    status = 429,
+    details?: Record<string, unknown>
+  ) {
+    super('rate_limited', message, status, details);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class ModelUnavailableError extends ServiceError {
+  constructor(message = 'The selected model is unavailable', status = 503, details?: Record<string, unknown>) {
+    super('model_unavailable', message, status, details);
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(message = 'Could not reach the server', details?: Record<string, unknown>) {
+    super('network', message, 0, details);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ServiceError {
+  constructor(message = 'The server took too long to respond', status = 0, details?: Record<string, unknown>) {
+    super('timeout', message, status, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+// A string or number field of an error body as text ('' when missing or of another type)
+function textField(details: Record<string, unknown> | undefined, key: string): string {
+  const value = details?.[key];
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+}
+
+/**
+ * Turn an error response into the matching ServiceError.
+ * The backend is not consistent about status codes, so the error code and message are checked too.
+ */
+export function serviceErrorFromResponse(
+  status: number,
+  body: unknown,
+  fallbackMessage: string,
+  retryAfterHeader?: string | null
+): ServiceError {
+  const details = body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : undefined;
+  const message = textField(details, 'message') || textField(details, 'detail') || textField(details, 'error') || fallbackMessage;
+  const text = `${textField(details, 'error_code')} ${textField(details, 'code')} ${textField(details, 'error')} ${message}`.toLowerCase();
+
+  if (status === 402 || /exhausted|insufficient (coins|credits)/.test(text)) {
+    return new CreditsExhaustedError(message, status, details);
+  }
+  if (status === 401 || status === 403 || /session.*(expired|invalid|not found)/.test(text)) {
+    return new SessionExpiredError(message, status, details);
+  }
+  if (status === 429) {
+    const retryAfterSeconds = Number(retryAfterHeader ?? textField(details, 'retry_after'));
+    const retryAfterMs = Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : null;
+    return new RateLimitedError(message, retryAfterMs, status, details);
+  }
+  if (/model/.test(text) && /unavailable|not available|unsupported|not found|disabled/.test(text)) {
+    return new ModelUnavailableError(message, status, details);
+  }
+  if (status === 408 || status === 504) {
+    return new TimeoutError(message, status, details);
+  }
+  if (status === 404) {
+    return new ServiceError('not_found', message, status, details);
+  }
+  if (status === 400 || status === 422) {
+    return new ServiceError('invalid_request', message, status, details);
+  }
+  if (status >= 500) {
+    return new ServiceError('server', message, status, details);
+  }
+  return new ServiceError('unknown', message, status, details);
+}
+
+/**
+ * Classify an error that arrived as text only, e.g. a stream_error event
+ */
+export function serviceErrorFromMessage(message: string): ServiceError {
+  return serviceErrorFromResponse(0, { message }, message);
+}
+
+/**
+ * Read the body of a failed response and classify it
+ */
+export async function readServiceError(response: Response, fallbackMessage: string): Promise<ServiceError> {
+  const body = await response.json().catch(() => null);
+  return serviceErrorFromResponse(
+    response.status,
+    body,
+    body ? fallbackMessage : `${fallbackMessage}: ${response.statusText || response.status}`,
+    response.headers.get('Retry-After')
+  );
+}
+
+/**
+ * Any caught error as a ServiceError (fetch failures become NetworkError)
+ */
+export function toServiceError(error: unknown, fallbackMessage: string): ServiceError {
+  if (error instanceof ServiceError) return error;
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return new NetworkError(error.message);
+  }
+  return new ServiceError('unknown', error instanceof Error ? error.message : fallbackMessage);
+}
@@ -0,0 +1,145 @@
+/**
+ * SSE Streaming Transport
+ * Streaming-fetch fallback used by WebSocketStreamingService when wss:// cannot connect.
+ * Posts the same request to the Next.js SSE proxy and yields the same events.
+ */
+
+import { httpClient } from './httpClient';
+
+// Events are passed on unchecked; WebSocketStreamingService validates them with validateStreamEvent()
+type RawStreamEvent = Record<string, unknown>;
+type StreamEventHandler = (event: RawStreamEvent) => void;
+
+interface SseStreamRequest {
+  routeKey: string;
+  conversation_id?: string;
+}
+
+const TERMINAL_EVENTS = new Set(['stream_complete', 'stream_error', 'stream_cancelled']);
+
+export class SseStreamingTransport {
+  private controllers = new Map<string, AbortController>();
+
+  constructor(private url: string) {}
+
+  /**
+   * Send a stream_chat / resume_stream request and relay events until the stream ends
+   */
+  async send(
+    request: SseStreamRequest,
+    onEvent: StreamEventHandler
+  ): Promise<void> {
+    const conversationId = request.conversation_id ?? '';
+    this.controllers.get(conversationId)?.abort();
+    const controller = new AbortController();
+    this.controllers.set(conversationId, controller);
+
+    let sawTerminalEvent = false;
+    const dispatch = (event: RawStreamEvent) => {
+      if (typeof event.type === 'string' && TERMINAL_EVENTS.has(event.type)) sawTerminalEvent = true;
+      onEvent(event);
+    };
+
+    try {
+      console.log('📤 [SSE] Sending request:', request.routeKey);
+      const response = await httpClient.request(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Streaming fallback failed: ${response.statusText}`);
+      }
+
+      await this.readEvents(response.body, dispatch);
+
+      if (!sawTerminalEvent) {
+        throw new Error('Connection lost while streaming the response');
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('⏹️ [SSE] Request aborted:', conversationId);
+        return;
+      }
+      console.error('❌ [SSE] Stream failed:', error);
+      dispatch({
+        type: 'stream_error',
+        conversation_id: conversationId,
+        error: error instanceof Error ? error.message : 'Streaming failed',
+      });
+    } finally {
+      if (this.controllers.get(conversationId) === controller) {
+        this.controllers.delete(conversationId);
+      }
+    }
+  }
+
+  /**
+   * Abort the request for a conversation; the proxy forwards cancel_stream upstream
+   */
+  cancel(conversationId: string): void {
+    this.controllers.get(conversationId)?.abort();
+    this.controllers.delete(conversationId);
+  }
+
+  cancelAll(): void {
+    this.controllers.forEach(controller => controller.abort());
+    this.controllers.clear();
+  }
+
+  private async readEvents(body: ReadableStream<Uint8Array>, onEvent: StreamEventHandler): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE frames are separated by a blank line
+      let separator = buffer.indexOf('\n\n');
+      while (separator !== -1) {
+        const frame = buffer.slice(0, separator);
+        buffer = buffer.slice(separator + 2);
+        this.parseFrame(frame, onEvent);
+        separator = buffer.indexOf('\n\n');
+      }
+    }
+
+    if (buffer.trim()) {
+      this.parseFrame(buffer, onEvent);
+    }
+  }
+
+  private parseFrame(frame: string, onEvent: StreamEventHandler): void {
+    const data = frame
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) return;
+
+    let event: unknown;
+    try {
+      event = JSON.parse(data);
+    } catch (error) {
+      console.error('❌ [SSE] Error parsing event:', error);
+      return;
+    }
+
+    if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+      console.error('❌ [SSE] Ignoring event that is not an object:', data);
+      return;
+    }
+    onEvent(event as RawStreamEvent);
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Stream Events
+ * Shapes of the events the streaming backend sends, and runtime validation for them.
+ * Payloads are checked before they reach any callback, so a renamed or missing field
+ * from a backend deploy is reported instead of rendering as `undefined`.
+ */
+
+export interface StreamStartEvent {
+  type: 'stream_start';
+  conversation_id?: string;
+  model: string;
+  timestamp?: string;
+}
+
+// content_chunk ids count up from this, one per chunk
+export const FIRST_CHUNK_ID = 0;
+
+export interface ContentChunkEvent {
+  type: 'content_chunk';
+  conversation_id?: string;
+  content: string;
+  chunk_id: number;
+  timestamp?: string;
+}
+
+export interface StreamCompleteEvent {
+  type: 'stream_complete';
+  conversation_id?: string;
+  full_response: string;
+  total_chunks: number;
+  tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  citations?: unknown[]; // Loosely shaped; turn into Citation[] with normalizeCitations()
+  credits?: {
+    remaining: number;
+    daily_total: number;
+    used_today: number;
+  };
+  timestamp?: string;
+}
+
+export interface StreamErrorEvent {
+  type: 'stream_error';
+  conversation_id?: string;
+  error: string;
+}
+
+export interface StreamCancelledEvent {
+  type: 'stream_cancelled';
+  conversation_id?: string;
+  partial_response?: string;
+  chunks_sent?: number;
+  timestamp?: string;
+}
+
+export interface StreamResumedEvent {
+  type: 'stream_resumed';
+  conversation_id?: string;
+  last_chunk_id?: number | null;
+}
+
+export interface CreditsInfoEvent {
+  type: 'credits_info';
+  conversation_id?: string;
+  vedika_coins_remaining: number;
+  daily_credits: number;
+  message: string;
+}
+
+export interface CreditsExhaustedEvent {
+  type: 'credits_exhausted';
+  conversation_id?: string;
+  vedika_coins_remaining: number;
+  daily_credits: number;
+  message: string;
+  action_required?: string;
+}
+
+export interface ConnectionEstablishedEvent {
+  type: 'connection_established';
+  connection_id?: string;
+  message?: string;
+}
+
+export interface PongEvent {
+  type: 'pong';
+  timestamp?: string;
+}
+
+export type StreamEvent =
+  | StreamStartEvent
+  | ContentChunkEvent
+  | StreamCompleteEvent
+  | StreamErrorEvent
+  | StreamCancelledEvent
+  | StreamResumedEvent
+  | CreditsInfoEvent
+  | CreditsExhaustedEvent
+  | ConnectionEstablishedEvent
+  | PongEvent;
+
+export type StreamEventType = StreamEvent['type'];
+
+/**
+ * Raised for an event that is not valid JSON, has an unknown type or fails its schema
+ */
+export class StreamProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly eventType: string | null,
+    public readonly issues: string[],
+    public readonly payload: unknown
+  ) {
+    super(message);
+    this.name = 'StreamProtocolError';
+  }
+}
+
+type FieldCheck = { describe: string; test: (value: unknown) => boolean };
+
+const string: FieldCheck = { describe: 'string', test: value => typeof value === 'string' };
+const number: FieldCheck = {
+  describe: 'number',
+  test: value => typeof value === 'number' && Number.isFinite(value),
+};
+const array: FieldCheck = { describe: 'array', test: value => Array.isArray(value) };
+
+const optional = (check: FieldCheck): FieldCheck => ({
+  describe: `${check.describe} (optional)`,
+  test: value => value === undefined || value === null || check.test(value),
+});
+
+const object = (fields: Record<string, FieldCheck>): FieldCheck => ({
+  describe: 'object',
+  test: value =>
+    typeof value === 'object' &&
+    value !== null &&
+    Object.entries(fields).every(([key, check]) => check.test((value as Record<string, unknown>)[key])),
+});
+
+// Every event may carry the conversation it belongs to
+const base = { conversation_id: optional(string) };
+
+const EVENT_SCHEMAS: Record<StreamEventType, Record<string, FieldCheck>> = {
+  stream_start: { ...base, model: string, timestamp: optional(string) },
+  content_chunk: { ...base, content: string, chunk_id: number, timestamp: optional(string) },
+  stream_complete: {
+    ...base,
+    full_response: string,
+    total_chunks: number,
+    tokens: number,
+    input_tokens: number,
+    output_tokens: number,
+    citations: optional(array),
+    credits: optional(object({ remaining: number, daily_total: number, used_today: number })),
+    timestamp: optional(string),
+  },
+  stream_error: { ...base, error: string },
+  stream_cancelled: {
+    ...base,
+    partial_response: optional(string),
+    chunks_sent: optional(number),
+    timestamp: optional(string),
+  },
+  stream_resumed: { ...base, last_chunk_id: optional(number) },
+  credits_info: { ...base, vedika_coins_remaining: number, daily_credits: number, message: string },
+  credits_exhausted: {
+    ...base,
+    vedika_coins_remaining: number,
+    daily_credits: number,
+    message: string,
+    action_required: optional(string),
+  },
+  connection_established: { connection_id: optional(string), message: optional(string) },
+  pong: { timestamp: optional(string) },
+};
+
+export function isStreamEventType(type: unknown): type is StreamEventType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, type);
+}
+
+export type StreamEventValidation =
+  | { ok: true; event: StreamEvent }
+  | { ok: false; error: StreamProtocolError };
+
+/**
+ * Check a decoded payload against the schema for its `type`
+ */
+export function validateStreamEvent(payload: unknown): StreamEventValidation {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return {
+      ok: false,
+      error: new StreamProtocolError('Stream event is not an object', null, [], payload),
+    };
+  }
+
+  const data = payload as Record<string, unknown>;
+  if (!isStreamEventType(data.type)) {
+    const type = typeof data.type === 'string' ? data.type : null;
+    return {
+      ok: false,
+      error: new StreamProtocolError(`Unknown stream event type: ${String(data.type)}`, type, [], payload),
+    };
+  }
+
+  const issues = Object.entries(EVENT_SCHEMAS[data.type])
+    .filter(([field, check]) => !check.test(data[field]))
+    .map(([field, check]) => `${field}: expected ${check.describe}, got ${describeValue(data[field])}`);
+
+  if (issues.length > 0) {
+    return {
+      ok: false,
+      error: new StreamProtocolError(`Invalid ${data.type} event`, data.type, issues, payload),
+    };
+  }
+
+  return { ok: true, event: payload as StreamEvent };
+}
+
+/**
+ * Decode and validate a raw socket / SSE message
+ */
+export function parseStreamEvent(raw: string): StreamEventValidation {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return {
+      ok: false,
+      error: new StreamProtocolError('Stream event is not valid JSON', null, [], raw),
+    };
+  }
+  return validateStreamEvent(payload);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,150 @@
+/**
+ * Stream Recorder
+ * Captures the streaming traffic of a conversation (requests sent, events received exactly as they
+ * arrived, connection changes) with timestamps, so a bad stream can be exported as a JSON trace
+ * and replayed on /dev/replay.
+ */
+
+export type StreamTraceTransport = 'websocket' | 'sse';
+
+export type StreamTraceEntry =
+  | { at: number; kind: 'request'; transport: StreamTraceTransport; data: Record<string, unknown> }
+  | { at: number; kind: 'event'; transport: StreamTraceTransport; raw: string }
+  | { at: number; kind: 'connection'; transport: StreamTraceTransport; state: 'open' | 'close' | 'fallback' };
+
+export interface StreamTrace {
+  version: 1;
+  conversation_id: string;
+  started_at: string;
+  ended_at: string | null; // null while still recording
+  user_agent?: string;
+  entries: StreamTraceEntry[]; // `at` is milliseconds since started_at
+}
+
+// Keep a runaway stream from growing a trace without bound
+const MAX_ENTRIES = 20000;
+// Oldest traces are dropped beyond this many conversations
+const MAX_TRACES = 20;
+
+export class StreamRecorder {
+  private recordings = new Map<string, { startedAt: number; trace: StreamTrace }>();
+
+  start(conversationId: string): void {
+    if (this.isRecording(conversationId)) return;
+    if (this.recordings.size >= MAX_TRACES) {
+      const oldest = this.recordings.keys().next().value;
+      if (oldest) this.recordings.delete(oldest);
+    }
+    this.recordings.delete(conversationId); // Restarting replaces the previous trace
+    console.log('⏺️ [StreamRecorder] Recording conversation:', conversationId);
+    const startedAt = Date.now();
+    this.recordings.set(conversationId, {
+      startedAt,
+      trace: {
+        version: 1,
+        conversation_id: conversationId,
+        started_at: new Date(startedAt).toISOString(),
+        ended_at: null,
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+        entries: [],
+      },
+    });
+  }
+
+  /**
+   * Stop recording; the trace stays available until the conversation is recorded again
+   */
+  stop(conversationId: string): StreamTrace | null {
+    const recording = this.recordings.get(conversationId);
+    if (!recording) return null;
+    if (!recording.trace.ended_at) {
+      recording.trace.ended_at = new Date().toISOString();
+      console.log('⏹️ [StreamRecorder] Stopped recording:', conversationId, recording.trace.entries.length, 'entries');
+    }
+    return this.getTrace(conversationId);
+  }
+
+  isRecording(conversationId: string): boolean {
+    const recording = this.recordings.get(conversationId);
+    return Boolean(recording && !recording.trace.ended_at);
+  }
+
+  getTrace(conversationId: string): StreamTrace | null {
+    const recording = this.recordings.get(conversationId);
+    return recording ? { ...recording.trace, entries: [...recording.trace.entries] } : null;
+  }
+
+  exportTrace(conversationId: string): string | null {
+    const trace = this.getTrace(conversationId);
+    return trace ? JSON.stringify(trace, null, 2) : null;
+  }
+
+  recordRequest(conversationId: string, transport: StreamTraceTransport, data: object): void {
+    // Traces get attached to bug reports; keep the session out of them
+    const request: Record<string, unknown> = { ...data };
+    if ('session_id' in request) request.session_id = '[redacted]';
+    this.append(conversationId, at => ({ at, kind: 'request', transport, data: request }));
+  }
+
+  recordEvent(conversationId: string | undefined, transport: StreamTraceTransport, raw: string): void {
+    if (!conversationId) return;
+    this.append(conversationId, at => ({ at, kind: 'event', transport, raw }));
+  }
+
+  /**
+   * Connection changes affect every conversation being recorded
+   */
+  recordConnection(transport: StreamTraceTransport, state: 'open' | 'close' | 'fallback'): void {
+    this.recordings.forEach((_recording, conversationId) => {
+      this.append(conversationId, at => ({ at, kind: 'connection', transport, state }));
+    });
+  }
+
+  private append(conversationId: string, createEntry: (at: number) => StreamTraceEntry): void {
+    const recording = this.recordings.get(conversationId);
+    if (!recording || recording.trace.ended_at) return;
+    if (recording.trace.entries.length >= MAX_ENTRIES) {
+      console.warn('⚠️ [StreamRecorder] Trace is full, stopping:', conversationId);
+      this.stop(conversationId);
+      return;
+    }
+    recording.trace.entries.push(createEntry(Date.now() - recording.startedAt));
+  }
+}
+
+/**
+ * Read an exported trace, checking it is one
+ */
+export function parseStreamTrace(json: string): StreamTrace {
+  let trace: unknown;
+  try {
+    trace = JSON.parse(json);
+  } catch {
+    throw new Error('Trace is not valid JSON');
+  }
+
+  const candidate = trace as Partial<StreamTrace>;
+  if (
+    typeof candidate !== 'object' ||
+    candidate === null ||
+    candidate.version !== 1 ||
+    typeof candidate.conversation_id !== 'string' ||
+    !Array.isArray(candidate.entries)
+  ) {
+    throw new Error('Not a stream trace (expected version 1 with a conversation_id and entries)');
+  }
+
+  const invalid = candidate.entries.findIndex(entry =>
+    typeof entry?.at !== 'number' ||
+    !(
+      (entry.kind === 'request' && typeof entry.data === 'object') ||
+      (entry.kind === 'event' && typeof entry.raw === 'string') ||
+      (entry.kind === 'connection' && typeof entry.state === 'string')
+    )
+  );
+  if (invalid !== -1) {
+    throw new Error(`Trace entry ${invalid} is malformed`);
+  }
+
+  return candidate as StreamTrace;
+}
@@ -0,0 +1,117 @@
+/**
+ * Stream Replay
+ * Plays a recorded StreamTrace back through a WebSocketStreamingService of its own, so useChatStream
+ * receives the recorded events in the same order and with the same gaps (scaled by `speed`),
+ * including connection drops and the reconnect/resume that followed.
+ */
+
+import config from '../config';
+import { WebSocketStreamingService } from './websocketStreamingService';
+import {
+  registerReplayHandler,
+  REPLAY_URL_PREFIX,
+  type ReplaySocketHandler,
+  type ReplayWebSocket,
+} from './replayWebSocket';
+import type { SocketRequest } from './inProcessWebSocket';
+import type { StreamTrace, StreamTraceEntry } from './streamRecorder';
+import type { StreamingConnection } from './streamingConnectionManager';
+
+export class StreamReplay implements ReplaySocketHandler {
+  readonly service: WebSocketStreamingService;
+  readonly connection: StreamingConnection; // For useChatStream in place of the shared connection
+  readonly question: string; // The message of the recorded stream_chat
+  private socket: ReplayWebSocket | null = null;
+  private pending: string[] = []; // Events that came due while the socket was down
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private started = false;
+  private unregister: () => void;
+
+  constructor(private trace: StreamTrace, private speed = 1, private onFinished?: () => void) {
+    const url = `${REPLAY_URL_PREFIX}${trace.conversation_id}-${Date.now()}`;
+    this.unregister = registerReplayHandler(url, this);
+    this.service = new WebSocketStreamingService(url, { ...config.streaming, recordTraces: false });
+    this.connection = {
+      service: this.service,
+      ensureConnected: () => this.service.connect().then(() => this.service),
+    };
+
+    const request = this.findStreamRequest();
+    this.question = request && typeof request.data.message === 'string' ? request.data.message : '';
+  }
+
+  onSocketOpen(socket: ReplayWebSocket): void {
+    this.socket = socket;
+    const due = this.pending;
+    this.pending = [];
+    due.forEach(raw => socket.receive(raw));
+  }
+
+  onSocketRequest(_socket: ReplayWebSocket, request: SocketRequest): void {
+    // Everything else the client sends (pings, resume_stream) is answered by what the trace recorded
+    if (request.routeKey === 'stream_chat' && !this.started) {
+      this.play();
+    }
+  }
+
+  onSocketClosed(socket: ReplayWebSocket): void {
+    if (this.socket === socket) this.socket = null;
+  }
+
+  /**
+   * Stop the replay and close its connection
+   */
+  dispose(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.pending = [];
+    this.unregister();
+    this.service.disconnect();
+  }
+
+  private findStreamRequest() {
+    return this.trace.entries.find(
+      (entry): entry is Extract<StreamTraceEntry, { kind: 'request' }> =>
+        entry.kind === 'request' && entry.data.routeKey === 'stream_chat'
+    );
+  }
+
+  // The timeline starts when the client sends its stream_chat, as it did when recording
+  private play(): void {
+    this.started = true;
+    const request = this.findStreamRequest();
+    const startAt = request?.at ?? 0;
+    const entries = this.trace.entries.filter(entry => entry !== request && entry.at >= startAt);
+    console.log('▶️ [StreamReplay] Replaying', entries.length, 'entries at', `${this.speed}x`);
+
+    entries.forEach(entry => {
+      this.timers.push(setTimeout(() => this.apply(entry), (entry.at - startAt) / this.speed));
+    });
+    const lastAt = entries.length > 0 ? entries[entries.length - 1].at : startAt;
+    this.timers.push(setTimeout(() => {
+      console.log('⏹️ [StreamReplay] Finished');
+      this.onFinished?.();
+    }, (lastAt - startAt) / this.speed));
+  }
+
+  private apply(entry: StreamTraceEntry): void {
+    switch (entry.kind) {
+      case 'event':
+        if (this.socket) {
+          this.socket.receive(entry.raw);
+        } else {
+          this.pending.push(entry.raw);
+        }
+        break;
+      case 'connection':
+        // The service reconnects by itself; only the drop needs replaying
+        if (entry.state === 'close') this.socket?.drop();
+        break;
+      case 'request':
+        if (entry.data.routeKey === 'cancel_stream') {
+          this.service.cancelStream(this.trace.conversation_id);
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Streaming Connection Manager
+ * Owns the single app-wide WebSocket connection so it stays warm across client-side navigations
+ */
+
+import config from '../config';
+import { WebSocketStreamingService } from './websocketStreamingService';
+
+export type StreamingConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+// A service plus a way to get it connected, as handed to useChatStream
+export interface StreamingConnection {
+  service: WebSocketStreamingService;
+  ensureConnected: () => Promise<WebSocketStreamingService>;
+}
+
+class StreamingConnectionManager {
+  private service: WebSocketStreamingService | null = null;
+  private state: StreamingConnectionState = 'idle';
+  private connectPromise: Promise<WebSocketStreamingService> | null = null;
+  private listeners = new Set<() => void>();
+
+  // Subscribe to connection state changes
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(state: StreamingConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ [StreamingConnection] Error in listener:', error);
+      }
+    });
+  }
+
+  getState(): StreamingConnectionState {
+    return this.state;
+  }
+
+  // Shared service instance (created lazily, never replaced)
+  getService(): WebSocketStreamingService {
+    if (!this.service) {
+      this.service = new WebSocketStreamingService(config.api.websocketUrl, {
+        fallbackUrl: config.api.streamFallbackUrl,
+        ...config.streaming,
+      });
+      this.service.setCallbacks({
+        onConnectionOpen: () => this.setState('connected'),
+        onReconnecting: () => this.setState('reconnecting'),
+        onConnectionClose: () => {
+          if (this.state !== 'reconnecting') this.setState('disconnected');
+        },
+      });
+    }
+    return this.service;
+  }
+
+  // Connect once and reuse the open socket for every caller
+  async ensureConnected(): Promise<WebSocketStreamingService> {
+    const service = this.getService();
+
+    if (service.isConnected()) {
+      return service;
+    }
+
+    // Return existing promise if already connecting
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
+
+    if (this.state !== 'reconnecting') this.setState('connecting');
+    this.connectPromise = service.connect().then(() => service);
+
+    try {
+      return await this.connectPromise;
+    } catch (error) {
+      console.error('❌ [StreamingConnection] Failed to connect:', error);
+      this.setState('disconnected');
+      throw error;
+    } finally {
+      this.connectPromise = null;
+    }
+  }
+
+  // Close the shared connection (e.g. on sign-out)
+  disconnect() {
+    this.service?.disconnect();
+    this.setState('disconnected');
+  }
+}
+
+// Singleton instance
+export const streamingConnectionManager = new StreamingConnectionManager();
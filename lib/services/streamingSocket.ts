@@ -0,0 +1,19 @@
+/**
+ * Streaming Socket
+ * Opens the socket for a streaming URL: the network for ws(s)://, in-process sockets for the
+ * mock backend and for trace replay
+ */
+
+import { MOCK_WEBSOCKET_URL } from '../config';
+import { MockWebSocket } from './mockWebSocket';
+import { ReplayWebSocket, REPLAY_URL_PREFIX } from './replayWebSocket';
+
+export function createStreamingSocket(url: string): WebSocket {
+  if (url === MOCK_WEBSOCKET_URL) {
+    return new MockWebSocket(url) as unknown as WebSocket;
+  }
+  if (url.startsWith(REPLAY_URL_PREFIX)) {
+    return new ReplayWebSocket(url) as unknown as WebSocket;
+  }
+  return new WebSocket(url);
+}
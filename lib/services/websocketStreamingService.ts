@@ -1,8 +1,29 @@
 /**
  * WebSocket Streaming Service
  * Handles real-time streaming responses from Vedika AI backend
+ * Falls back to an SSE transport when the WebSocket cannot connect
+ * Can record the traffic of a conversation as a trace for replay (see StreamRecorder)
  */
 
+import { SseStreamingTransport } from './sseStreamingTransport';
+import { createStreamingSocket } from './streamingSocket';
+import { StreamRecorder, type StreamTrace } from './streamRecorder';
+import {
+  parseStreamEvent,
+  validateStreamEvent,
+  StreamProtocolError,
+  type StreamEvent,
+  type StreamEventValidation,
+  type StreamStartEvent,
+  type ContentChunkEvent,
+  type StreamCompleteEvent,
+  type StreamCancelledEvent,
+  type CreditsInfoEvent,
+  type CreditsExhaustedEvent,
+} from './streamEvents';
+
+export * from './streamEvents';
+
 interface StreamingCallbacks {
   onStreamStart?: (data: StreamStartEvent) => void;
   onContentChunk?: (data: ContentChunkEvent) => void;
@@ -13,57 +34,83 @@ interface StreamingCallbacks {
   onConnectionError?: (error: Event) => void;
   onCreditsInfo?: (data: CreditsInfoEvent) => void;
   onCreditsExhausted?: (data: CreditsExhaustedEvent) => void;
+  onReconnecting?: (attempt: number) => void;
+  onStreamResumed?: (data: ResumeStreamRequest) => void;
+  onStreamCancelled?: (data: StreamCancelledEvent) => void;
+  onStreamTimeout?: (error: StreamTimeoutError) => void;
+  onProtocolError?: (error: StreamProtocolError) => void;
 }
 
-interface StreamStartEvent {
-  type: 'stream_start';
-  model: string;
-  timestamp: string;
+/**
+ * Raised when the server never starts streaming a request
+ */
+export class StreamTimeoutError extends Error {
+  constructor(public readonly conversationId: string, public readonly timeoutMs: number) {
+    super(`No response from the server after ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'StreamTimeoutError';
+  }
 }
 
-interface ContentChunkEvent {
-  type: 'content_chunk';
-  content: string;
-  chunk_id: number;
-  timestamp: string;
+export interface StreamingServiceOptions {
+  fallbackUrl?: string;
+  heartbeatIntervalMs?: number;
+  staleConnectionMs?: number;
+  streamStartTimeoutMs?: number;
+  recordTraces?: boolean; // Record every stream_chat so it can be exported with exportTrace()
 }
 
-interface StreamCompleteEvent {
-  type: 'stream_complete';
-  full_response: string;
-  total_chunks: number;
-  tokens: number;
-  input_tokens: number;
-  output_tokens: number;
-  citations?: any[];
-  credits?: {
-    remaining: number;
-    daily_total: number;
-    used_today: number;
-  };
-  timestamp: string;
+interface StreamRequest {
+  routeKey: string;
+  device_id: string;
+  session_id: string;
+  message: string;
+  conversation_id?: string;
+  request_type: string;
+  model_id?: string;
+  query_type?: string;
+  interaction_mode?: string;
 }
 
-interface StreamErrorEvent {
-  type: 'stream_error';
-  error: string;
+interface ResumeStreamRequest {
+  routeKey: 'resume_stream';
+  device_id: string;
+  session_id: string;
+  conversation_id: string;
+  last_chunk_id: number | null;
+  request_type: string;
 }
 
-interface CreditsInfoEvent {
-  type: 'credits_info';
-  vedika_coins_remaining: number;
-  daily_credits: number;
-  message: string;
+interface CancelStreamRequest {
+  routeKey: 'cancel_stream';
+  device_id: string;
+  session_id: string;
+  conversation_id: string;
+  request_type: string;
 }
 
-interface CreditsExhaustedEvent {
-  type: 'credits_exhausted';
-  vedika_coins_remaining: number;
-  daily_credits: number;
-  message: string;
-  action_required?: string;
+// In-flight stream tracked so it can be resumed after a reconnect
+interface ActiveStream {
+  request: StreamRequest;
+  lastChunkId: number | null;
 }
 
+type CallbackArgs<K extends keyof StreamingCallbacks> = Parameters<NonNullable<StreamingCallbacks[K]>>;
+
+export type StreamingTransport = 'websocket' | 'sse';
+
+// Events that end a stream
+const TERMINAL_EVENTS = new Set(['stream_complete', 'stream_error', 'stream_cancelled']);
+
+// Any of these shows the server is working on a request
+const STREAM_PROGRESS_EVENTS = new Set([
+  'stream_start',
+  'content_chunk',
+  'stream_complete',
+  'stream_error',
+  'stream_cancelled',
+  'stream_resumed',
+]);
+
 export class WebSocketStreamingService {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
@@ -71,54 +118,108 @@ export class WebSocketStreamingService {
   private reconnectDelay = 3000;
   private isReconnecting = false;
   private callbacks: StreamingCallbacks = {};
+  private subscriptions = new Map<string, Set<StreamingCallbacks>>();
   private shouldReconnect = true;
+  private activeStreams = new Map<string, ActiveStream>();
+  private cancelledConversations = new Set<string>();
+  private pendingConnect: Promise<void> | null = null;
+  private hasConnected = false;
+  private transport: StreamingTransport = 'websocket';
+  private fallback: SseStreamingTransport | null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
+  private pongReceived = false; // Whether this socket's server answers pings
+  private streamStartTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private recorder: StreamRecorder | null = null;
 
-  constructor(private wsUrl: string) {}
+  constructor(private wsUrl: string, private options: StreamingServiceOptions = {}) {
+    this.fallback = options.fallbackUrl ? new SseStreamingTransport(options.fallbackUrl) : null;
+    if (options.recordTraces) this.recorder = new StreamRecorder();
+  }
 
   /**
    * Connect to WebSocket server
+   * Safe to call repeatedly: an open socket is reused and concurrent calls share one attempt.
    */
   connect(): Promise<void> {
+    if (this.transport === 'sse' || this.ws?.readyState === WebSocket.OPEN) {
+      return Promise.resolve();
+    }
+    if (this.pendingConnect) {
+      return this.pendingConnect;
+    }
+
+    this.shouldReconnect = true;
+    this.pendingConnect = this.openSocket()
+      .catch((error) => {
+        // wss:// never worked here (e.g. blocked by a proxy) - stream over SSE instead
+        if (this.fallback && !this.hasConnected) {
+          this.activateFallback();
+          return;
+        }
+        throw error;
+      })
+      .finally(() => {
+        this.pendingConnect = null;
+      });
+    return this.pendingConnect;
+  }
+
+  /**
+   * Switch every stream to the SSE transport and resume anything that was in flight
+   */
+  private activateFallback(): void {
+    console.warn('⚠️ [WebSocket] Cannot connect, falling back to SSE transport');
+    this.transport = 'sse';
+    this.recorder?.recordConnection('websocket', 'fallback');
+    this.shouldReconnect = false;
+    this.isReconnecting = false;
+    this.stopHeartbeat();
+    this.ws = null;
+    this.broadcast('onConnectionOpen');
+    this.resumeActiveStreams();
+  }
+
+  private openSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         console.log('🔌 [WebSocket] Connecting to:', this.wsUrl);
-        this.ws = new WebSocket(this.wsUrl);
+        const socket = createStreamingSocket(this.wsUrl);
+        this.ws = socket;
 
-        this.ws.onopen = () => {
+        socket.onopen = () => {
           console.log('✅ [WebSocket] Connected');
+          this.recorder?.recordConnection('websocket', 'open');
+          const wasReconnecting = this.isReconnecting;
+          this.hasConnected = true;
           this.reconnectAttempts = 0;
           this.isReconnecting = false;
-          this.callbacks.onConnectionOpen?.();
+          this.startHeartbeat();
+          this.broadcast('onConnectionOpen');
+          if (wasReconnecting) {
+            this.resumeActiveStreams();
+          }
           resolve();
         };
 
-        this.ws.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data);
-            this.handleMessage(data);
-          } catch (error) {
-            console.error('❌ [WebSocket] Error parsing message:', error);
+        socket.onmessage = (event) => {
+          this.lastMessageAt = Date.now();
+          const result = parseStreamEvent(event.data);
+          this.recordIncoming(event.data, result);
+          if (result.ok) {
+            this.handleMessage(result.event);
+          } else {
+            this.reportProtocolError(result.error);
           }
         };
 
-        this.ws.onerror = (error) => {
+        socket.onerror = (error) => {
           console.error('❌ [WebSocket] Connection error:', error);
-          this.callbacks.onConnectionError?.(error);
+          this.broadcast('onConnectionError', error);
           reject(error);
         };
 
-        this.ws.onclose = () => {
-          console.log('🔌 [WebSocket] Connection closed');
-          this.callbacks.onConnectionClose?.();
-          
-          if (this.shouldReconnect && this.reconnectAttempts < this.maxReconnectAttempts) {
-            this.reconnectAttempts++;
-            const delay = this.reconnectDelay * this.reconnectAttempts;
-            console.log(`🔄 [WebSocket] Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms...`);
-            this.isReconnecting = true;
-            setTimeout(() => this.connect(), delay);
-          }
-        };
+        socket.onclose = () => this.handleSocketClosed();
 
       } catch (error) {
         console.error('❌ [WebSocket] Failed to create connection:', error);
@@ -127,47 +228,279 @@ export class WebSocketStreamingService {
     });
   }
 
+  private handleSocketClosed(): void {
+    this.stopHeartbeat();
+    if (this.transport === 'sse') return; // Already streaming over the fallback
+
+    console.log('🔌 [WebSocket] Connection closed');
+    this.recorder?.recordConnection('websocket', 'close');
+    this.broadcast('onConnectionClose');
+
+    if (!this.shouldReconnect) return; // disconnect() was called
+
+    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.reconnectAttempts++;
+      const delay = this.reconnectDelay * this.reconnectAttempts;
+      console.log(`🔄 [WebSocket] Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms...`);
+      this.isReconnecting = true;
+      this.broadcast('onReconnecting', this.reconnectAttempts);
+      setTimeout(() => {
+        if (!this.shouldReconnect) return; // disconnect() was called while waiting
+        this.connect().catch((error) => {
+          console.error('❌ [WebSocket] Reconnect attempt failed:', error);
+        });
+      }, delay);
+    } else if (this.fallback) {
+      this.activateFallback();
+    } else if (this.activeStreams.size > 0) {
+      const interrupted = Array.from(this.activeStreams.keys());
+      console.error('❌ [WebSocket] Giving up on interrupted streams:', interrupted);
+      this.activeStreams.clear();
+      interrupted.forEach(conversationId => {
+        this.emit(conversationId, 'onStreamError', 'Connection lost while streaming the response');
+      });
+    }
+  }
+
   /**
-   * Handle incoming WebSocket messages
+   * Ping on an interval and treat a socket that has gone silent as dead
+   * (API Gateway idle disconnects and half-open TCP connections never fire onclose).
+   * Silence only counts once the server has answered a ping, or while a stream is running:
+   * a gateway without a ping route never replies, and an idle socket there is not a dead one.
+   * With pings turned off the timer still runs, as a watchdog for streams that go silent.
    */
-  private handleMessage(data: any): void {
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    const { heartbeatIntervalMs, staleConnectionMs } = this.options;
+    if (!heartbeatIntervalMs && !staleConnectionMs) return;
+
+    // Check often enough that a dead socket is noticed soon after staleConnectionMs
+    const tickMs = heartbeatIntervalMs || Math.max(1000, Math.round(staleConnectionMs! / 4));
+
+    this.lastMessageAt = Date.now();
+    this.pongReceived = false;
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+      const silentFor = Date.now() - this.lastMessageAt;
+      const expectingMessages = this.pongReceived || this.activeStreams.size > 0;
+      if (staleConnectionMs && expectingMessages && silentFor > staleConnectionMs) {
+        console.warn(`⚠️ [WebSocket] Nothing received for ${silentFor}ms, treating connection as dead`);
+        this.dropStaleSocket();
+        return;
+      }
+      if (!heartbeatIntervalMs) return;
+
+      try {
+        this.ws.send(JSON.stringify({ routeKey: 'ping', timestamp: new Date().toISOString() }));
+      } catch (error) {
+        console.error('❌ [WebSocket] Error sending heartbeat:', error);
+      }
+    }, tickMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * close() on a half-open socket can take minutes to fire onclose - detach it and reconnect now
+   */
+  private dropStaleSocket(): void {
+    const socket = this.ws;
+    if (!socket) return;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    socket.close();
+    this.ws = null;
+    this.handleSocketClosed();
+  }
+
+  private armStreamStartTimeout(conversationId: string): void {
+    this.clearStreamStartTimeout(conversationId);
+    const timeoutMs = this.options.streamStartTimeoutMs;
+    if (!timeoutMs) return;
+
+    this.streamStartTimers.set(conversationId, setTimeout(() => {
+      this.streamStartTimers.delete(conversationId);
+      if (!this.activeStreams.has(conversationId)) return;
+
+      console.warn(`⏱️ [WebSocket] No stream_start within ${timeoutMs}ms for:`, conversationId);
+      // Abandon the request; anything that still arrives for it is dropped
+      this.activeStreams.delete(conversationId);
+      this.cancelledConversations.add(conversationId);
+      if (this.transport === 'sse') this.fallback!.cancel(conversationId);
+      this.emit(conversationId, 'onStreamTimeout', new StreamTimeoutError(conversationId, timeoutMs));
+    }, timeoutMs));
+  }
+
+  private clearStreamStartTimeout(conversationId: string): void {
+    const timer = this.streamStartTimers.get(conversationId);
+    if (timer) {
+      clearTimeout(timer);
+      this.streamStartTimers.delete(conversationId);
+    }
+  }
+
+  /**
+   * Work out which conversation an event belongs to.
+   * Events without a conversation_id are attributed to the only in-flight stream, if there is exactly one.
+   */
+  private resolveConversationId(data: object): string | undefined {
+    if ('conversation_id' in data && typeof data.conversation_id === 'string') return data.conversation_id;
+    if (this.activeStreams.size === 1) return this.activeStreams.keys().next().value;
+    return undefined;
+  }
+
+  /**
+   * Add a message received on the socket to the trace of its conversation (malformed ones included)
+   */
+  private recordIncoming(raw: string, result: StreamEventValidation): void {
+    if (!this.recorder) return;
+    const payload = result.ok ? result.event : result.error.payload;
+    const conversationId = this.resolveConversationId(typeof payload === 'object' && payload !== null ? payload : {});
+    this.recorder.recordEvent(conversationId, 'websocket', raw);
+  }
+
+  private recordRequest(message: StreamRequest | ResumeStreamRequest | CancelStreamRequest): void {
+    if (this.recorder && message.conversation_id) {
+      this.recorder.recordRequest(message.conversation_id, this.transport, message);
+    }
+  }
+
+  /**
+   * Deliver an event to the subscribers of one conversation, or to the global callbacks
+   * when nobody subscribed to it
+   */
+  private emit<K extends keyof StreamingCallbacks>(
+    conversationId: string | undefined,
+    name: K,
+    ...args: CallbackArgs<K>
+  ): void {
+    const subscribers = conversationId ? this.subscriptions.get(conversationId) : undefined;
+    const targets = subscribers && subscribers.size > 0 ? Array.from(subscribers) : [this.callbacks];
+
+    targets.forEach(callbacks => {
+      const callback = callbacks[name] as ((...callbackArgs: CallbackArgs<K>) => void) | undefined;
+      callback?.(...args);
+    });
+  }
+
+  /**
+   * Deliver a connection-level event to everyone
+   */
+  private broadcast<K extends keyof StreamingCallbacks>(name: K, ...args: CallbackArgs<K>): void {
+    const targets = [this.callbacks];
+    this.subscriptions.forEach(subscribers => targets.push(...Array.from(subscribers)));
+
+    targets.forEach(callbacks => {
+      const callback = callbacks[name] as ((...callbackArgs: CallbackArgs<K>) => void) | undefined;
+      callback?.(...args);
+    });
+  }
+
+  /**
+   * Report an event that failed validation. A malformed terminal event still ends its stream.
+   */
+  private reportProtocolError(error: StreamProtocolError): void {
+    console.error('🚫 [WebSocket] Protocol error:', error.message, {
+      issues: error.issues,
+      payload: error.payload,
+    });
+
+    const payload = typeof error.payload === 'object' && error.payload !== null ? error.payload : {};
+    const conversationId = this.resolveConversationId(payload);
+    if (conversationId && error.eventType && TERMINAL_EVENTS.has(error.eventType)) {
+      this.activeStreams.delete(conversationId);
+      this.clearStreamStartTimeout(conversationId);
+    }
+    this.emit(conversationId, 'onProtocolError', error);
+  }
+
+  /**
+   * Handle incoming WebSocket messages (already validated)
+   */
+  private handleMessage(data: StreamEvent): void {
     console.log('📨 [WebSocket] Received event:', data.type);
+    const conversationId = this.resolveConversationId(data);
+    if (conversationId && STREAM_PROGRESS_EVENTS.has(data.type)) {
+      this.clearStreamStartTimeout(conversationId);
+    }
 
     switch (data.type) {
       case 'stream_start':
-        console.log('🎬 [WebSocket] Stream started');
-        this.callbacks.onStreamStart?.(data);
+        console.log('🎬 [WebSocket] Stream started:', conversationId);
+        this.emit(conversationId, 'onStreamStart', data);
         break;
 
-      case 'content_chunk':
+      case 'content_chunk': {
+        if (conversationId && this.cancelledConversations.has(conversationId)) {
+          console.log('⏭️ [WebSocket] Dropping chunk for cancelled stream:', data.chunk_id);
+          break;
+        }
         console.log('📦 [WebSocket] Chunk received:', data.chunk_id);
-        this.callbacks.onContentChunk?.(data);
+        const activeStream = conversationId ? this.activeStreams.get(conversationId) : undefined;
+        if (activeStream) {
+          // Duplicates re-delivered after a reconnect must not move the resume point backwards
+          activeStream.lastChunkId = Math.max(activeStream.lastChunkId ?? data.chunk_id, data.chunk_id);
+        }
+        this.emit(conversationId, 'onContentChunk', data);
         break;
+      }
 
       case 'stream_complete':
         console.log('✅ [WebSocket] Stream complete:', {
+          conversationId,
           chunks: data.total_chunks,
           tokens: data.tokens,
         });
-        this.callbacks.onStreamComplete?.(data);
+        if (conversationId) this.activeStreams.delete(conversationId);
+        if (conversationId && this.cancelledConversations.has(conversationId)) {
+          // Server finished before it saw the cancel request - still honour the stop
+          this.finishCancellation(conversationId, { type: 'stream_cancelled', conversation_id: conversationId });
+          break;
+        }
+        this.emit(conversationId, 'onStreamComplete', data);
+        break;
+
+      case 'stream_cancelled':
+        console.log('⏹️ [WebSocket] Stream cancelled:', conversationId);
+        if (conversationId) {
+          this.activeStreams.delete(conversationId);
+          this.finishCancellation(conversationId, data);
+        }
         break;
 
       case 'stream_error':
         console.error('❌ [WebSocket] Stream error:', data.error);
-        this.callbacks.onStreamError?.(data.error);
+        if (conversationId) this.activeStreams.delete(conversationId);
+        this.emit(conversationId, 'onStreamError', data.error);
+        break;
+
+      case 'stream_resumed':
+        console.log('▶️ [WebSocket] Stream resumed by server:', conversationId);
         break;
 
       case 'connection_established':
         console.log('✅ [WebSocket] Connection established');
         break;
 
+      case 'pong':
+        this.pongReceived = true; // Heartbeat reply - from now on silence means a dead socket
+        break;
+
       case 'credits_info':
         console.log('🪙 [WebSocket] Credits info:', {
           vedika_coins_remaining: data.vedika_coins_remaining,
           daily_credits: data.daily_credits,
           message: data.message
         });
-        this.callbacks.onCreditsInfo?.(data as CreditsInfoEvent);
+        this.emit(conversationId, 'onCreditsInfo', data);
         break;
 
       case 'credits_exhausted':
@@ -175,28 +508,22 @@ export class WebSocketStreamingService {
           vedika_coins_remaining: data.vedika_coins_remaining,
           message: data.message
         });
-        this.callbacks.onCreditsExhausted?.(data as CreditsExhaustedEvent);
+        this.emit(conversationId, 'onCreditsExhausted', data);
         break;
-
-      default:
-        console.log('📨 [WebSocket] Unknown event type:', data.type);
     }
   }
 
   /**
    * Send message via WebSocket
    */
-  sendMessage(message: {
-    routeKey: string;
-    device_id: string;
-    session_id: string;
-    message: string;
-    conversation_id?: string;
-    request_type: string;
-    model_id?: string;
-    query_type?: string;
-    interaction_mode?: string;
-  }): boolean {
+  sendMessage(message: StreamRequest): boolean {
+    if (this.transport === 'sse') {
+      this.trackRequest(message);
+      this.recordRequest(message);
+      this.sendOverFallback(message);
+      return true;
+    }
+
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       console.error('❌ [WebSocket] Not connected. State:', this.ws?.readyState);
       return false;
@@ -205,6 +532,8 @@ export class WebSocketStreamingService {
     try {
       console.log('📤 [WebSocket] Sending message:', message.routeKey);
       this.ws.send(JSON.stringify(message));
+      this.trackRequest(message);
+      this.recordRequest(message);
       return true;
     } catch (error) {
       console.error('❌ [WebSocket] Error sending message:', error);
@@ -212,28 +541,210 @@ export class WebSocketStreamingService {
     }
   }
 
+  private trackRequest(message: StreamRequest): void {
+    if (message.routeKey === 'stream_chat' && message.conversation_id) {
+      this.activeStreams.set(message.conversation_id, { request: message, lastChunkId: null });
+      this.lastMessageAt = Date.now(); // An idle spell before the request is not silence during it
+      this.cancelledConversations.delete(message.conversation_id);
+      this.armStreamStartTimeout(message.conversation_id);
+      if (this.options.recordTraces) this.recorder?.start(message.conversation_id);
+    }
+  }
+
+  private sendOverFallback(message: StreamRequest | ResumeStreamRequest): void {
+    const conversationId = message.conversation_id;
+    // One SSE response per conversation, so events can be attributed even without a conversation_id
+    void this.fallback!.send(message, data => {
+      this.recorder?.recordEvent(conversationId, 'sse', JSON.stringify({ conversation_id: conversationId, ...data }));
+      const result = validateStreamEvent({ conversation_id: conversationId, ...data });
+      if (result.ok) {
+        this.handleMessage(result.event);
+      } else {
+        this.reportProtocolError(result.error);
+      }
+    });
+  }
+
+  /**
+   * Ask the server to stop generating the response for a conversation.
+   * Chunks that arrive for it after this call are dropped.
+   */
+  cancelStream(conversationId: string): boolean {
+    const activeStream = this.activeStreams.get(conversationId);
+    if (!activeStream) {
+      console.warn('⚠️ [WebSocket] No active stream to cancel for:', conversationId);
+      return false;
+    }
+
+    const { request } = activeStream;
+    const cancelRequest: CancelStreamRequest = {
+      routeKey: 'cancel_stream',
+      device_id: request.device_id,
+      session_id: request.session_id,
+      conversation_id: conversationId,
+      request_type: request.request_type,
+    };
+    this.recordRequest(cancelRequest);
+    this.cancelledConversations.add(conversationId);
+    this.clearStreamStartTimeout(conversationId);
+
+    if (this.transport === 'sse') {
+      // Aborting the SSE request makes the proxy cancel upstream
+      this.fallback!.cancel(conversationId);
+      this.activeStreams.delete(conversationId);
+      this.finishCancellation(conversationId, { type: 'stream_cancelled', conversation_id: conversationId });
+      return true;
+    }
+
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      // Nothing more will arrive on a closed socket - cancel locally
+      this.activeStreams.delete(conversationId);
+      this.finishCancellation(conversationId, { type: 'stream_cancelled', conversation_id: conversationId });
+      return true;
+    }
+
+    try {
+      console.log('⏹️ [WebSocket] Cancelling stream:', conversationId);
+      this.ws.send(JSON.stringify(cancelRequest));
+      return true;
+    } catch (error) {
+      console.error('❌ [WebSocket] Error cancelling stream:', error);
+      this.activeStreams.delete(conversationId);
+      this.finishCancellation(conversationId, { type: 'stream_cancelled', conversation_id: conversationId });
+      return true;
+    }
+  }
+
+  private finishCancellation(conversationId: string, event: StreamCancelledEvent): void {
+    if (!this.cancelledConversations.delete(conversationId)) return;
+    this.emit(conversationId, 'onStreamCancelled', event);
+  }
+
+  /**
+   * Re-subscribe to every in-flight stream after a reconnect.
+   * The server replays every chunk after last_chunk_id.
+   */
+  private resumeActiveStreams(): void {
+    if (this.transport === 'websocket' && (!this.ws || this.ws.readyState !== WebSocket.OPEN)) return;
+
+    this.activeStreams.forEach(({ request, lastChunkId }, conversationId) => {
+      const resumeRequest: ResumeStreamRequest = {
+        routeKey: 'resume_stream',
+        device_id: request.device_id,
+        session_id: request.session_id,
+        conversation_id: conversationId,
+        last_chunk_id: lastChunkId,
+        request_type: request.request_type,
+      };
+
+      try {
+        console.log('🔁 [WebSocket] Resuming stream:', { conversationId, lastChunkId, transport: this.transport });
+        if (this.transport === 'sse') {
+          this.sendOverFallback(resumeRequest);
+        } else {
+          this.ws!.send(JSON.stringify(resumeRequest));
+        }
+        this.recordRequest(resumeRequest);
+        this.emit(conversationId, 'onStreamResumed', resumeRequest);
+        // Still waiting for stream_start: restart the clock for the resent request
+        if (this.streamStartTimers.has(conversationId)) {
+          this.armStreamStartTimeout(conversationId);
+        }
+      } catch (error) {
+        console.error('❌ [WebSocket] Error resuming stream:', error);
+      }
+    });
+  }
+
   /**
    * Set callbacks
+   * Global callbacks receive connection events and any stream event nobody subscribed to.
    */
   setCallbacks(callbacks: StreamingCallbacks): void {
     this.callbacks = { ...this.callbacks, ...callbacks };
   }
 
+  /**
+   * Subscribe to the stream events of one conversation
+   * Returns an unsubscribe function.
+   */
+  subscribe(conversationId: string, callbacks: StreamingCallbacks): () => void {
+    let subscribers = this.subscriptions.get(conversationId);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.subscriptions.set(conversationId, subscribers);
+    }
+    subscribers.add(callbacks);
+
+    return () => {
+      const current = this.subscriptions.get(conversationId);
+      if (!current) return;
+      current.delete(callbacks);
+      if (current.size === 0) {
+        this.subscriptions.delete(conversationId);
+      }
+    };
+  }
+
+  /**
+   * Start recording the traffic of a conversation (before sending its stream_chat)
+   */
+  startRecording(conversationId: string): void {
+    if (!this.recorder) this.recorder = new StreamRecorder();
+    this.recorder.start(conversationId);
+  }
+
+  stopRecording(conversationId: string): StreamTrace | null {
+    return this.recorder?.stop(conversationId) ?? null;
+  }
+
+  getTrace(conversationId: string): StreamTrace | null {
+    return this.recorder?.getTrace(conversationId) ?? null;
+  }
+
+  /**
+   * The recorded trace of a conversation as JSON, for /dev/replay
+   */
+  exportTrace(conversationId: string): string | null {
+    return this.recorder?.exportTrace(conversationId) ?? null;
+  }
+
+  /**
+   * Check if a conversation has a response in flight
+   */
+  isStreaming(conversationId: string): boolean {
+    return this.activeStreams.has(conversationId);
+  }
+
   /**
    * Disconnect from WebSocket
    */
   disconnect(): void {
     console.log('🔌 [WebSocket] Disconnecting...');
     this.shouldReconnect = false;
+    this.activeStreams.clear();
+    this.cancelledConversations.clear();
+    this.streamStartTimers.forEach(timer => clearTimeout(timer));
+    this.streamStartTimers.clear();
+    this.stopHeartbeat();
+    this.fallback?.cancelAll();
+    this.transport = 'websocket'; // Give wss:// another chance on the next connect()
     this.ws?.close();
     this.ws = null;
   }
 
   /**
-   * Check if WebSocket is connected
+   * Check if WebSocket is connected (always true once streaming over the SSE fallback)
    */
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.transport === 'sse' || this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Which transport streams are currently sent over
+   */
+  getTransport(): StreamingTransport {
+    return this.transport;
   }
 
   /**
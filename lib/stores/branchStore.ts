@@ -0,0 +1,165 @@
+/**
+ * Conversation Branch Store
+ * Remembers which conversations were forked from which (for the branch indicators),
+ * and keeps the history of forks made locally when the backend cannot fork
+ */
+
+import { apiService } from '../services/api';
+import { toServiceError } from '../services/serviceErrors';
+import type { Conversation, Message } from '../types/api';
+
+export interface ConversationBranch {
+  conversation_id: string;
+  parent_conversation_id: string;
+  forked_from_message_id: string;
+  title: string;
+  created_at: string;
+  local: boolean; // The backend could not fork; the history lives in `messages`
+  messages?: Message[];
+}
+
+const STORAGE_KEY = 'vedika_conversation_branches';
+
+// Backend responses that mean "forking is not available here"
+const FORK_UNSUPPORTED_STATUSES = new Set([0, 404, 405, 501]);
+
+/**
+ * A local fork as a list entry; the backend's conversation list doesn't know about it
+ */
+export function branchToConversation(branch: ConversationBranch): Conversation {
+  return {
+    conversation_id: branch.conversation_id,
+    title: branch.title,
+    model: '',
+    created_at: branch.created_at,
+    updated_at: branch.created_at,
+    message_count: branch.messages?.length ?? 0,
+    total_tokens: 0,
+    session_type: 'fork',
+    parent_conversation_id: branch.parent_conversation_id,
+    forked_from_message_id: branch.forked_from_message_id,
+  };
+}
+
+class BranchStore {
+  private branches: Record<string, ConversationBranch> | null = null;
+  private listeners = new Set<() => void>();
+
+  // Subscribe to changes
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify all listeners
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ [BranchStore] Error in listener:', error);
+      }
+    });
+  }
+
+  private load(): Record<string, ConversationBranch> {
+    if (this.branches) return this.branches;
+    if (typeof window === 'undefined') return {};
+
+    try {
+      this.branches = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch (error) {
+      console.error('❌ [BranchStore] Failed to read branches:', error);
+      this.branches = {};
+    }
+    return this.branches!;
+  }
+
+  private save(branches: Record<string, ConversationBranch>) {
+    this.branches = branches;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(branches));
+    } catch (error) {
+      console.error('❌ [BranchStore] Failed to save branches:', error);
+    }
+    this.notify();
+  }
+
+  get(conversationId: string): ConversationBranch | null {
+    return this.load()[conversationId] ?? null;
+  }
+
+  // Newest first
+  getAll(): ConversationBranch[] {
+    return Object.values(this.load()).sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  // Persist a local fork's thread as it grows
+  saveMessages(conversationId: string, messages: Message[]) {
+    const branch = this.get(conversationId);
+    if (!branch?.local) return;
+    this.save({ ...this.load(), [conversationId]: { ...branch, messages } });
+  }
+
+  remove(conversationId: string) {
+    const branches = { ...this.load() };
+    if (!branches[conversationId]) return;
+    delete branches[conversationId];
+    this.save(branches);
+  }
+
+  /**
+   * Create a conversation seeded with `messages` (the thread up to and including `upToMessageId`).
+   * Falls back to a local fork when the backend has no fork endpoint or is unreachable.
+   */
+  async fork(
+    parentConversationId: string,
+    upToMessageId: string,
+    messages: Message[],
+    title: string
+  ): Promise<ConversationBranch> {
+    const seeded = messages.map(message => ({
+      ...message,
+      status: 'complete' as const,
+      truncated: undefined,
+      error: undefined,
+      retryable: undefined,
+    }));
+
+    const result = await apiService.forkConversation(parentConversationId, upToMessageId, seeded, title);
+
+    let branch: ConversationBranch;
+    if (result.success) {
+      console.log('🌿 [BranchStore] Forked on the backend:', result.data.conversation_id);
+      branch = {
+        conversation_id: result.data.conversation_id,
+        parent_conversation_id: parentConversationId,
+        forked_from_message_id: upToMessageId,
+        title: result.data.title || title,
+        created_at: new Date().toISOString(),
+        local: false,
+      };
+    } else if (FORK_UNSUPPORTED_STATUSES.has(result.error.status_code)) {
+      console.warn('⚠️ [BranchStore] Backend fork unavailable, forking locally:', result.error.message);
+      branch = {
+        conversation_id: `fork-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        parent_conversation_id: parentConversationId,
+        forked_from_message_id: upToMessageId,
+        title,
+        created_at: new Date().toISOString(),
+        local: true,
+        messages: seeded,
+      };
+    } else {
+      throw toServiceError(result.error, 'Failed to fork conversation');
+    }
+
+    this.save({ ...this.load(), [branch.conversation_id]: branch });
+    return branch;
+  }
+}
+
+// Singleton instance
+export const branchStore = new BranchStore();
@@ -0,0 +1,165 @@
+/**
+ * Conversation List Store
+ * Pages through the conversation history (cursor-based, or by offset on backends without cursors)
+ * and keeps every page loaded so far, so reopening the history panel doesn't refetch it
+ */
+
+import { apiService } from '../services/api';
+import type { APIError, Conversation, ConversationPageParams } from '../types/api';
+
+export const CONVERSATION_PAGE_SIZE = 20;
+
+interface ConversationListData {
+  conversations: Conversation[]; // All loaded pages, in order, without duplicates
+  total: number;
+  pageCount: number;
+  hasMore: boolean;
+  loading: boolean;
+  error: APIError | null;
+}
+
+class ConversationListStore {
+  private pages: Conversation[][] = [];
+  private nextPage: ConversationPageParams | null = {}; // null once the last page is loaded
+  private total = 0;
+  private loading = false;
+  private error: APIError | null = null;
+  private generation = 0; // Bumped by refresh() so late pages of the old list are dropped
+  private fetchPromise: Promise<void> | null = null;
+  private snapshot: ConversationListData | null = null;
+  private listeners = new Set<() => void>();
+
+  // Subscribe to changes
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify all listeners
+  private notify() {
+    this.snapshot = null;
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ [ConversationListStore] Error in listener:', error);
+      }
+    });
+  }
+
+  getData(): ConversationListData {
+    if (!this.snapshot) {
+      // Cursor pages can overlap when a conversation moves up between requests
+      const seen = new Set<string>();
+      const conversations = this.pages.flat().filter(conversation => {
+        if (seen.has(conversation.conversation_id)) return false;
+        seen.add(conversation.conversation_id);
+        return true;
+      });
+
+      this.snapshot = {
+        conversations,
+        total: this.total,
+        pageCount: this.pages.length,
+        hasMore: this.nextPage !== null,
+        loading: this.loading,
+        error: this.error,
+      };
+    }
+    return this.snapshot;
+  }
+
+  // Load the first page unless it is cached
+  async ensureLoaded(): Promise<void> {
+    if (this.pages.length > 0) return;
+    return this.loadMore();
+  }
+
+  // Fetch the page after the last loaded one
+  async loadMore(): Promise<void> {
+    if (this.fetchPromise) return this.fetchPromise;
+    if (!this.nextPage) return;
+
+    const fetchPromise = this.fetchPage(this.nextPage).finally(() => {
+      if (this.fetchPromise === fetchPromise) this.fetchPromise = null;
+    });
+    this.fetchPromise = fetchPromise;
+    return fetchPromise;
+  }
+
+  // Drop the cached pages and start again from the newest conversation
+  async refresh(): Promise<void> {
+    this.generation++;
+    this.pages = [];
+    this.nextPage = {};
+    this.total = 0;
+    this.fetchPromise = null;
+    this.notify();
+    return this.loadMore();
+  }
+
+  // Apply a change the backend confirmed to the cached copy
+  patch(conversationId: string, changes: Partial<Conversation>) {
+    let patched = false;
+    this.pages = this.pages.map(page => page.map(conversation => {
+      if (conversation.conversation_id !== conversationId) return conversation;
+      patched = true;
+      return { ...conversation, ...changes };
+    }));
+    if (patched) this.notify();
+  }
+
+  // Take a deleted conversation out of the cached pages
+  remove(conversationId: string) {
+    const pages = this.pages.map(page => page.filter(conversation => conversation.conversation_id !== conversationId));
+    const removed = pages.flat().length < this.pages.flat().length;
+    if (!removed) return;
+
+    this.pages = pages;
+    this.total = Math.max(0, this.total - 1);
+    if (this.nextPage?.offset) {
+      this.nextPage = { offset: this.nextPage.offset - 1 };
+    }
+    this.notify();
+  }
+
+  private async fetchPage(page: ConversationPageParams): Promise<void> {
+    const generation = this.generation;
+    this.loading = true;
+    this.error = null;
+    this.notify();
+
+    const result = await apiService.listConversations(CONVERSATION_PAGE_SIZE, undefined, page);
+    if (generation !== this.generation) return;
+
+    this.loading = false;
+    if (!result.success) {
+      console.error('❌ [ConversationListStore] Failed to load conversations:', result.error);
+      this.error = result.error;
+      this.notify();
+      return;
+    }
+
+    const { conversations, total, next_cursor, has_more } = result.data;
+    this.pages = [...this.pages, conversations];
+    this.total = total;
+
+    const loadedCount = this.pages.reduce((count, loaded) => count + loaded.length, 0);
+    const hasMore = has_more ?? (conversations.length === CONVERSATION_PAGE_SIZE && loadedCount < total);
+    if (!hasMore || conversations.length === 0) {
+      this.nextPage = null;
+    } else if (next_cursor) {
+      this.nextPage = { cursor: next_cursor };
+    } else {
+      this.nextPage = { offset: loadedCount }; // Backend without cursors
+    }
+
+    console.log(`📜 [ConversationListStore] Loaded page ${this.pages.length}: ${conversations.length} of ${total} conversations`);
+    this.notify();
+  }
+}
+
+// Singleton instance
+export const conversationListStore = new ConversationListStore();
@@ -0,0 +1,146 @@
+/**
+ * Conversation Meta Store
+ * Renames, pins and archives conversations. Changes go to the backend; when it has no endpoint
+ * for them (or the conversation is a local fork) they are kept in this browser instead and
+ * laid over the conversation lists
+ */
+
+import { apiService } from '../services/api';
+import { ServiceError, toServiceError } from '../services/serviceErrors';
+import type { ConversationUpdate } from '../types/api';
+import { branchStore } from './branchStore';
+import { conversationListStore } from './conversationListStore';
+
+const STORAGE_KEY = 'vedika_conversation_meta';
+
+// Backend responses that mean "updating conversations is not available here"
+const UPDATE_UNSUPPORTED_STATUSES = new Set([0, 404, 405, 501]);
+
+class ConversationMetaStore {
+  private meta: Record<string, ConversationUpdate> | null = null;
+  private listeners = new Set<() => void>();
+
+  // Subscribe to changes
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify all listeners
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ [ConversationMetaStore] Error in listener:', error);
+      }
+    });
+  }
+
+  private load(): Record<string, ConversationUpdate> {
+    if (this.meta) return this.meta;
+    if (typeof window === 'undefined') return {};
+
+    try {
+      this.meta = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch (error) {
+      console.error('❌ [ConversationMetaStore] Failed to read conversation meta:', error);
+      this.meta = {};
+    }
+    return this.meta!;
+  }
+
+  private save(meta: Record<string, ConversationUpdate>) {
+    this.meta = meta;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(meta));
+    } catch (error) {
+      console.error('❌ [ConversationMetaStore] Failed to save conversation meta:', error);
+    }
+    this.notify();
+  }
+
+  get(conversationId: string): ConversationUpdate | null {
+    return this.load()[conversationId] ?? null;
+  }
+
+  getAll(): Record<string, ConversationUpdate> {
+    return this.load();
+  }
+
+  /**
+   * Rename, pin or archive a conversation. Rejects with a ServiceError when the backend refuses the change;
+   * keeps it locally when the backend can't store it.
+   */
+  async update(conversationId: string, changes: ConversationUpdate): Promise<void> {
+    if (changes.title !== undefined) {
+      changes = { ...changes, title: changes.title.trim() };
+      if (!changes.title) throw new ServiceError('invalid_request', 'Title cannot be empty');
+    }
+
+    if (branchStore.get(conversationId)?.local) {
+      this.saveLocally(conversationId, changes);
+      return;
+    }
+
+    const result = await apiService.updateConversation(conversationId, changes);
+    if (result.success) {
+      console.log('✏️ [ConversationMetaStore] Updated on the backend:', conversationId, changes);
+      conversationListStore.patch(conversationId, changes);
+      this.forget(conversationId, changes); // The backend's copy is current now
+    } else if (UPDATE_UNSUPPORTED_STATUSES.has(result.error.status_code)) {
+      console.warn('⚠️ [ConversationMetaStore] Backend update unavailable, keeping it locally:', result.error.message);
+      this.saveLocally(conversationId, changes);
+    } else {
+      throw toServiceError(result.error, 'Failed to update conversation');
+    }
+  }
+
+  rename(conversationId: string, title: string) {
+    return this.update(conversationId, { title });
+  }
+
+  setPinned(conversationId: string, pinned: boolean) {
+    return this.update(conversationId, { pinned });
+  }
+
+  setArchived(conversationId: string, archived: boolean) {
+    return this.update(conversationId, { archived });
+  }
+
+  // Drop everything kept for a deleted conversation
+  remove(conversationId: string) {
+    if (!this.get(conversationId)) return;
+    const meta = { ...this.load() };
+    delete meta[conversationId];
+    this.save(meta);
+  }
+
+  private saveLocally(conversationId: string, changes: ConversationUpdate) {
+    this.save({ ...this.load(), [conversationId]: { ...this.get(conversationId), ...changes } });
+  }
+
+  // Stop overriding the fields the backend now has
+  private forget(conversationId: string, changes: ConversationUpdate) {
+    const current = this.get(conversationId);
+    if (!current) return;
+
+    const remaining = { ...current };
+    for (const key of Object.keys(changes) as (keyof ConversationUpdate)[]) {
+      delete remaining[key];
+    }
+
+    const meta = { ...this.load() };
+    if (Object.keys(remaining).length > 0) {
+      meta[conversationId] = remaining;
+    } else {
+      delete meta[conversationId];
+    }
+    this.save(meta);
+  }
+}
+
+// Singleton instance
+export const conversationMetaStore = new ConversationMetaStore();
@@ -0,0 +1,138 @@
+/**
+ * Outbox Store
+ * Messages that could not be sent because the browser was offline or the backend was unreachable.
+ * Persisted in IndexedDB so a queued question survives a reload, and sent in order once back online.
+ */
+
+import { ServiceError } from '../services/serviceErrors';
+
+export interface OutboxItem {
+  id: string; // Becomes the user message id once sent
+  conversation_id: string; // The thread it was typed in
+  text: string;
+  model_id?: string;
+  interaction_mode?: 'type' | 'dictation' | 'voice';
+  created_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+const DB_NAME = 'vedika_outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+/**
+ * True when a request failed before reaching the backend or got no answer in time;
+ * safe to queue because the start is sent again with the same Idempotency-Key
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof ServiceError) return error.kind === 'network' || error.kind === 'timeout';
+  return error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+}
+
+class OutboxStore {
+  private items: OutboxItem[] = [];
+  private listeners = new Set<() => void>();
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  // Subscribe to changes
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify all listeners
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ [OutboxStore] Error in listener:', error);
+      }
+    });
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private setItems(items: OutboxItem[]) {
+    this.items = [...items].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    this.notify();
+  }
+
+  /**
+   * Read the queue from IndexedDB (once per page load)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.run<OutboxItem[]>('readonly', store => store.getAll())
+        .then(items => {
+          if (items.length > 0) console.log('📮 [OutboxStore] Restored queued messages:', items.length);
+          // Keep anything queued while the database was opening
+          const restored = items.filter(item => !this.items.some(existing => existing.id === item.id));
+          this.setItems([...this.items, ...restored]);
+        })
+        .catch(error => {
+          console.error('❌ [OutboxStore] Failed to read the outbox:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  // Oldest first
+  getForConversation(conversationId: string): OutboxItem[] {
+    return this.items.filter(item => item.conversation_id === conversationId);
+  }
+
+  async enqueue(item: OutboxItem): Promise<void> {
+    console.log('📮 [OutboxStore] Queued message:', item.id);
+    this.setItems([...this.items.filter(existing => existing.id !== item.id), item]);
+    try {
+      await this.run('readwrite', store => store.put(item));
+    } catch (error) {
+      // Still queued for this page load
+      console.error('❌ [OutboxStore] Failed to persist queued message:', error);
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!this.items.some(item => item.id === id)) return;
+    this.setItems(this.items.filter(item => item.id !== id));
+    try {
+      await this.run('readwrite', store => store.delete(id));
+    } catch (error) {
+      console.error('❌ [OutboxStore] Failed to remove queued message:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const outboxStore = new OutboxStore();
@@ -3,6 +3,8 @@
  * Based on Vedika AI Backend OpenAPI specification
  */
 
+import type { UIMessage } from 'ai';
+
 // Session/Device Types for Anonymous Users
 export interface DeviceSession {
   device_id: string;
@@ -10,6 +12,9 @@ export interface DeviceSession {
 }
 
 // Message Types
+// Lifecycle of a message in the UI: pending (sent, no stream yet) -> streaming -> complete | error | cancelled
+export type MessageStatus = 'pending' | 'streaming' | 'complete' | 'error' | 'cancelled';
+
 export interface Message {
   message_id?: string; // From backend
   id?: string; // For frontend usage
@@ -17,6 +22,48 @@ export interface Message {
   content: string;
   timestamp: string; // Backend sends 'timestamp' field
   tokens_used?: number;
+  truncated?: boolean; // Generation was stopped by the user before completion
+  status?: MessageStatus;
+  error?: string;
+  retryable?: boolean; // The error can be retried, e.g. the server never started streaming
+  integrity?: StreamIntegrityReport; // Set when the streamed chunks did not add up
+  citations?: Citation[]; // Sources for [n] markers in the answer (1-based)
+  usage?: MessageUsage; // Assistant messages only
+}
+
+// Which model answered, what it cost and how fast it was
+export interface MessageUsage {
+  model?: string;
+  model_name?: string;
+  routing?: {
+    selected_model: string;
+    reason: string;
+    confidence: number;
+  };
+  tokens?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  coins_used?: number;
+  time_to_first_token_ms?: number; // Measured on the client from submit to first chunk
+  duration_ms?: number; // Measured on the client from submit to the end of the stream
+}
+
+// A source the assistant cited
+export interface Citation {
+  index: number; // Number used by the [n] marker in the answer
+  url: string;
+  title: string;
+  domain: string;
+  snippet?: string;
+}
+
+// Result of checking streamed chunks against stream_complete
+export interface StreamIntegrityReport {
+  expected_chunks: number | null; // total_chunks from stream_complete
+  received_chunks: number;
+  duplicate_chunks: number;
+  missing_chunk_ids: number[];
+  matches_full_response: boolean | null; // null when stream_complete had no full_response
 }
 
 // Conversation Types
@@ -31,16 +78,56 @@ export interface Conversation {
   total_tokens: number;
   session_type: string;
   plan?: string;
+  parent_conversation_id?: string; // Set on forks
+  forked_from_message_id?: string;
+  pinned?: boolean; // Listed above the others
+  archived?: boolean; // Hidden from the sidebar, still in the history page
 }
 
 // Conversation with Messages
 export interface ConversationDetail {
   conversation_id: string;
   title?: string;
+  pinned?: boolean;
+  archived?: boolean;
   messages: Message[];
   total: number;
 }
 
+// What a user can change on a conversation
+export interface ConversationUpdate {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+// Update Conversation Request (PATCH /ai/conversations/{id}); responds with the Conversation
+export interface UpdateConversationRequest extends ConversationUpdate {
+  request_type: 'authenticated' | 'anonymous';
+  user_id?: string;
+  device_id?: string;
+  session_id?: string;
+}
+
+// Fork Conversation Request
+export interface ForkConversationRequest {
+  up_to_message_id: string; // Last message copied into the fork
+  messages: Pick<Message, 'role' | 'content' | 'timestamp'>[]; // History as shown in the UI
+  title?: string;
+  request_type: 'authenticated' | 'anonymous';
+  user_id?: string;
+  device_id?: string;
+  session_id?: string;
+}
+
+// Fork Conversation Response
+export interface ForkConversationResponse {
+  conversation_id: string;
+  parent_conversation_id: string;
+  forked_from_message_id: string;
+  title?: string;
+}
+
 // Chat Request (for sending messages)
 export interface ChatRequest {
   message: string;
@@ -72,6 +159,34 @@ export interface ChatResponse {
   };
 }
 
+// /api/chat UI message stream (Vercel AI SDK data stream protocol)
+export interface ChatMessageMetadata {
+  conversationId?: string;
+  model?: string;
+}
+
+export interface ChatUsageData {
+  model: string;
+  tokens: number;
+  // Not reported when the reply came from the non-streaming /ai/chat fallback
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+export interface ChatCreditsData {
+  remaining: number;
+  used?: number;
+  daily_total?: number;
+  exhausted?: boolean;
+}
+
+export type ChatDataParts = {
+  usage: ChatUsageData;
+  credits: ChatCreditsData;
+};
+
+export type VedikaUIMessage = UIMessage<ChatMessageMetadata, ChatDataParts>;
+
 // List Conversations Request
 export interface ListConversationsRequest {
   request_type: 'authenticated' | 'anonymous';
@@ -79,6 +194,14 @@ export interface ListConversationsRequest {
   device_id?: string;
   session_id?: string;
   limit?: number;
+  cursor?: string; // next_cursor of the previous page
+  offset?: number; // For backends without cursors; ignored when cursor is set
+}
+
+// Where the next page of conversations starts
+export interface ConversationPageParams {
+  cursor?: string;
+  offset?: number;
 }
 
 // List Conversations Response
@@ -87,6 +210,8 @@ export interface ListConversationsResponse {
   total: number;
   owner_type: 'user' | 'device';
   owner_id: string;
+  next_cursor?: string | null; // Absent when the backend only pages by offset
+  has_more?: boolean;
 }
 
 // Get Conversation Request
@@ -108,10 +233,25 @@ export interface DeleteConversationRequest {
 }
 
 // Error Response
+// What went wrong, for messaging and recovery (see lib/services/serviceErrors.ts)
+export type APIErrorKind =
+  | 'credits_exhausted'
+  | 'session_expired'
+  | 'rate_limited'
+  | 'model_unavailable'
+  | 'network'
+  | 'timeout'
+  | 'not_found'
+  | 'invalid_request'
+  | 'invalid_response'
+  | 'server'
+  | 'unknown';
+
 export interface APIError {
+  kind: APIErrorKind;
   error: string;
   message: string;
-  status_code: number;
+  status_code: number; // 0 when no response was received
   details?: Record<string, any>;
 }
 
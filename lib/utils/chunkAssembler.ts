@@ -0,0 +1,112 @@
+/**
+ * Chunk Assembler
+ * Rebuilds a streamed answer from content_chunk events by chunk_id,
+ * so reordered or re-delivered chunks (e.g. after a reconnect) don't garble the text
+ */
+
+import { FIRST_CHUNK_ID } from '../services/streamEvents';
+import type { StreamIntegrityReport } from '../types/api';
+
+export class ChunkAssembler {
+  private chunks = new Map<number, string>();
+  private duplicates = 0;
+  private nextFallbackId: number;
+  private lastId: number | null = null;
+  private cachedText: string | null = '';
+
+  // The id of a stream's first chunk comes from the protocol; it can't be told from what arrived
+  // (a stream that lost its first chunk would look like it started later)
+  constructor(private readonly firstChunkId = FIRST_CHUNK_ID) {
+    this.nextFallbackId = firstChunkId;
+  }
+
+  /**
+   * Add a chunk. Returns false if this chunk_id was already received.
+   */
+  add(chunkId: number | undefined, content: string): boolean {
+    // Chunks without an id keep their arrival order
+    const id = typeof chunkId === 'number' && Number.isFinite(chunkId) ? chunkId : this.nextFallbackId;
+
+    if (this.chunks.has(id)) {
+      this.duplicates++;
+      console.log('⏭️ [ChunkAssembler] Dropping duplicate chunk:', id);
+      return false;
+    }
+
+    this.chunks.set(id, content);
+    this.nextFallbackId = Math.max(this.nextFallbackId, id + 1);
+
+    // In-order chunks (the common case) extend the text; only a late chunk forces a rebuild
+    if (this.lastId === null || id > this.lastId) {
+      if (this.cachedText !== null) this.cachedText += content;
+      this.lastId = id;
+    } else {
+      this.cachedText = null;
+    }
+    return true;
+  }
+
+  /**
+   * Text of every received chunk in chunk_id order
+   */
+  getText(): string {
+    if (this.cachedText === null) {
+      this.cachedText = this.sortedIds().map(id => this.chunks.get(id)).join('');
+    }
+    return this.cachedText;
+  }
+
+  /**
+   * chunk_ids missing up to the last chunk received (or expected, given total_chunks)
+   */
+  getMissingChunkIds(totalChunks?: number): number[] {
+    const ids = this.sortedIds();
+    if (ids.length === 0) return [];
+
+    const first = this.firstChunkId;
+    const lastSeen = ids[ids.length - 1];
+    const last = totalChunks ? Math.max(first + totalChunks - 1, lastSeen) : lastSeen;
+    const missing: number[] = [];
+    for (let id = first; id <= last; id++) {
+      if (!this.chunks.has(id)) missing.push(id);
+    }
+    return missing;
+  }
+
+  /**
+   * Check what was received against stream_complete's total_chunks / full_response
+   */
+  verify(totalChunks?: number, fullResponse?: string): StreamIntegrityReport {
+    const expected = typeof totalChunks === 'number' ? totalChunks : null;
+    return {
+      expected_chunks: expected,
+      received_chunks: this.chunks.size,
+      duplicate_chunks: this.duplicates,
+      missing_chunk_ids: this.getMissingChunkIds(expected ?? undefined),
+      matches_full_response: fullResponse ? fullResponse === this.getText() : null,
+    };
+  }
+
+  reset(): void {
+    this.chunks.clear();
+    this.duplicates = 0;
+    this.nextFallbackId = this.firstChunkId;
+    this.lastId = null;
+    this.cachedText = '';
+  }
+
+  private sortedIds(): number[] {
+    return Array.from(this.chunks.keys()).sort((a, b) => a - b);
+  }
+}
+
+/**
+ * True when the stream did not arrive intact (duplicates alone are harmless)
+ */
+export function hasIntegrityMismatch(report: StreamIntegrityReport): boolean {
+  return (
+    (report.expected_chunks !== null && report.received_chunks !== report.expected_chunks) ||
+    report.missing_chunk_ids.length > 0 ||
+    report.matches_full_response === false
+  );
+}
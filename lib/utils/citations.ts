@@ -0,0 +1,55 @@
+/**
+ * Citation helpers
+ * The backend sends citations as loosely shaped objects (stream_complete and conversation history);
+ * normalize them once so the UI can rely on title, url, domain and snippet
+ */
+
+import type { Citation } from '../types/api';
+
+const pickString = (source: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+};
+
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Convert raw citations into Citation[]; entries without a URL are dropped.
+ * A citation's number is its own `index`/`number` when present, otherwise its 1-based position.
+ */
+export function normalizeCitations(raw: unknown): Citation[] | undefined {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+
+  const citations = raw
+    .map((item, position): Citation | null => {
+      if (typeof item === 'string') {
+        return { index: position + 1, url: item, title: getDomain(item), domain: getDomain(item) };
+      }
+      if (typeof item !== 'object' || item === null) return null;
+
+      const source = item as Record<string, unknown>;
+      const url = pickString(source, ['url', 'link', 'uri', 'source_url', 'source']);
+      if (!url) return null;
+
+      const number = source.index ?? source.number ?? source.id;
+      return {
+        index: typeof number === 'number' && Number.isInteger(number) && number > 0 ? number : position + 1,
+        url,
+        title: pickString(source, ['title', 'name']) || getDomain(url),
+        domain: getDomain(url),
+        snippet: pickString(source, ['snippet', 'excerpt', 'text', 'content', 'description']),
+      };
+    })
+    .filter((citation): citation is Citation => citation !== null);
+
+  return citations.length > 0 ? citations : undefined;
+}
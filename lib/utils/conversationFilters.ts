@@ -0,0 +1,104 @@
+/**
+ * Conversation Filters
+ * Search, filter and sort for the conversation history page
+ */
+
+import type { Conversation } from '../types/api';
+
+export type ConversationDateRange = 'any' | 'today' | 'week' | 'month' | 'older';
+
+export type ConversationStatus = 'active' | 'archived' | 'all';
+
+export type ConversationSort = 'updated_desc' | 'updated_asc' | 'created_desc' | 'title' | 'messages' | 'tokens';
+
+export interface ConversationFilters {
+  query: string;
+  model: string; // '' for any model
+  sessionType: string; // '' for any session type
+  dateRange: ConversationDateRange;
+  status: ConversationStatus;
+  sort: ConversationSort;
+}
+
+export const DEFAULT_CONVERSATION_FILTERS: ConversationFilters = {
+  query: '',
+  model: '',
+  sessionType: '',
+  dateRange: 'any',
+  status: 'active',
+  sort: 'updated_desc',
+};
+
+const DAY_MS = 86400000;
+
+function matchesDateRange(updatedAt: string, range: ConversationDateRange, now: number): boolean {
+  if (range === 'any') return true;
+
+  const time = new Date(updatedAt).getTime();
+  if (isNaN(time)) return false;
+
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  switch (range) {
+    case 'today':
+      return time >= startOfToday;
+    case 'week':
+      return time >= now - 7 * DAY_MS;
+    case 'month':
+      return time >= now - 30 * DAY_MS;
+    case 'older':
+      return time < now - 30 * DAY_MS;
+  }
+}
+
+// Pinned conversations stay on top whatever the sort
+function compareConversations(a: Conversation, b: Conversation, sort: ConversationSort): number {
+  const pinned = Number(Boolean(b.pinned)) - Number(Boolean(a.pinned));
+  if (pinned !== 0) return pinned;
+
+  switch (sort) {
+    case 'updated_asc':
+      return a.updated_at.localeCompare(b.updated_at);
+    case 'created_desc':
+      return b.created_at.localeCompare(a.created_at);
+    case 'title':
+      return (a.title || a.topic || '').localeCompare(b.title || b.topic || '', undefined, { sensitivity: 'base' });
+    case 'messages':
+      return b.message_count - a.message_count;
+    case 'tokens':
+      return b.total_tokens - a.total_tokens;
+    default:
+      return b.updated_at.localeCompare(a.updated_at);
+  }
+}
+
+export function filterConversations(
+  conversations: Conversation[],
+  filters: ConversationFilters,
+  now = Date.now()
+): Conversation[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return conversations
+    .filter(conversation => {
+      if (filters.status !== 'all' && Boolean(conversation.archived) !== (filters.status === 'archived')) return false;
+      if (filters.model && conversation.model !== filters.model) return false;
+      if (filters.sessionType && conversation.session_type !== filters.sessionType) return false;
+      if (!matchesDateRange(conversation.updated_at, filters.dateRange, now)) return false;
+
+      // Every word has to appear somewhere in the title, topic or model
+      const text = `${conversation.title ?? ''} ${conversation.topic ?? ''} ${conversation.model}`.toLowerCase();
+      return terms.every(term => text.includes(term));
+    })
+    .sort((a, b) => compareConversations(a, b, filters.sort));
+}
+
+// Distinct non-empty values of a field, for the filter dropdowns
+export function distinctValues(conversations: Conversation[], field: 'model' | 'session_type'): string[] {
+  return Array.from(new Set(conversations.map(conversation => conversation[field]).filter(Boolean))).sort();
+}
+
+export function isFiltering(filters: ConversationFilters): boolean {
+  return Boolean(
+    filters.query.trim() || filters.model || filters.sessionType || filters.dateRange !== 'any' || filters.status !== 'active'
+  );
+}
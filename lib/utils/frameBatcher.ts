@@ -0,0 +1,58 @@
+/**
+ * Frame Batcher
+ * Coalesces bursts of updates (e.g. content_chunk events) into at most one flush per animation frame,
+ * so a long answer re-renders ~60 times a second instead of once per chunk
+ */
+
+export class FrameBatcher {
+  private frame: number | null = null;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly onFlush: () => void) {}
+
+  /**
+   * Ask for a flush on the next frame (no-op if one is already scheduled)
+   */
+  schedule(): void {
+    if (this.isScheduled()) return;
+
+    if (typeof requestAnimationFrame === 'function') {
+      this.frame = requestAnimationFrame(() => {
+        this.frame = null;
+        this.flush();
+      });
+    } else {
+      // No rAF (e.g. server or tests): roughly one frame
+      this.timeout = setTimeout(() => {
+        this.timeout = null;
+        this.flush();
+      }, 16);
+    }
+  }
+
+  isScheduled(): boolean {
+    return this.frame !== null || this.timeout !== null;
+  }
+
+  /**
+   * Flush now, dropping any scheduled frame
+   */
+  flush(): void {
+    this.cancel();
+    this.onFlush();
+  }
+
+  /**
+   * Drop a scheduled flush, e.g. when the final state is written directly
+   */
+  cancel(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    if (this.timeout !== null) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+}
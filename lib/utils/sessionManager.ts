@@ -4,6 +4,7 @@
  */
 
 import { DeviceSessionApi } from '../services/deviceSessionApi';
+import { httpClient } from '../services/httpClient';
 import { DeviceManager } from './deviceManager';
 
 interface SessionData {
@@ -116,3 +117,15 @@ class SessionManager {
 
 // Singleton instance
 export const sessionManager = new SessionManager();
+
+// A backend call rejected with 401/403 gets a fresh session (re-created if the old one is gone)
+// and is replayed once by httpClient
+if (typeof window !== 'undefined') {
+  httpClient.setSessionRecovery({
+    getSessionId: () => DeviceManager.getSessionId(),
+    refreshSession: async () => {
+      console.log('🔐 [SessionManager] Backend rejected the session, refreshing...');
+      return (await sessionManager.refresh()).session_id;
+    },
+  });
+}
@@ -17,6 +17,9 @@ const nextConfig = {
   poweredByHeader: false,  // Remove X-Powered-By header
   generateEtags: false,  // Disable ETag generation for performance
   
+  // Loaded by Node at runtime instead of bundled (the SSE proxy's upstream WebSocket client)
+  serverExternalPackages: ['ws'],
+
   // Development optimizations for memory
   experimental: {
     // Reduce memory usage in development